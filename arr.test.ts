@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test"
+import { fetchRootFolders, findFreeSpace } from "./src/api/arr"
+
+const rootFolders = [
+    { id: 1, path: "/mnt/movies/", freeSpace: 500, totalSpace: 1000 },
+    { id: 2, path: "/mnt/movies/4k", freeSpace: 100, totalSpace: 1000 },
+    { id: 3, path: "/mnt/tv", totalSpace: 1000 },
+]
+
+describe("fetchRootFolders", () => {
+    let server: ReturnType<typeof Bun.serve>
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            fetch: (req) => {
+                const url = new URL(req.url)
+                if (url.pathname !== "/api/v3/rootfolder") return new Response("Not found", { status: 404 })
+                if (req.headers.get("X-Api-Key") !== "secret") return new Response("Unauthorized", { status: 401 })
+                return Response.json(rootFolders)
+            },
+        })
+    })
+
+    afterAll(() => server.stop(true))
+
+    it("returns the instance's root folders", async () => {
+        expect(await fetchRootFolders(`http://localhost:${server.port}`, "secret")).toEqual(rootFolders)
+    })
+
+    it("throws on an error response", async () => {
+        await expect(fetchRootFolders(`http://localhost:${server.port}`, "wrong")).rejects.toThrow("401")
+    })
+})
+
+describe("findFreeSpace", () => {
+    it("matches the root folder path ignoring trailing slashes", () => {
+        expect(findFreeSpace(rootFolders, "/mnt/movies")).toBe(500)
+    })
+
+    it("prefers the most specific root folder", () => {
+        expect(findFreeSpace(rootFolders, "/mnt/movies/4k/")).toBe(100)
+        expect(findFreeSpace(rootFolders, "/mnt/movies/anime")).toBe(500)
+    })
+
+    it("does not match folders that only share a prefix", () => {
+        expect(findFreeSpace(rootFolders, "/mnt/movies-old")).toBeUndefined()
+    })
+
+    it("returns undefined when free space is not reported", () => {
+        expect(findFreeSpace(rootFolders, "/mnt/tv")).toBeUndefined()
+    })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "bun:test"
+import { createHmac } from "node:crypto"
+import { safeEqual, verifySignature, isValidIpRange, isIpAllowed, checkWebhookAuth, SIGNATURE_HEADER } from "./src/services/auth"
+
+const body = JSON.stringify({ notification_type: "MEDIA_PENDING" })
+const sign = (value: string, secret: string) => createHmac("sha256", secret).update(value).digest("hex")
+
+describe("safeEqual", () => {
+    it("compares strings of any length", () => {
+        expect(safeEqual("secret", "secret")).toBe(true)
+        expect(safeEqual("secret", "secreT")).toBe(false)
+        expect(safeEqual("secret", "secret-longer")).toBe(false)
+        expect(safeEqual("", "secret")).toBe(false)
+    })
+})
+
+describe("verifySignature", () => {
+    it("accepts a valid signature with or without prefix", () => {
+        expect(verifySignature(body, sign(body, "key"), "key")).toBe(true)
+        expect(verifySignature(body, `sha256=${sign(body, "key").toUpperCase()}`, "key")).toBe(true)
+    })
+
+    it("rejects a signature for another body or key", () => {
+        expect(verifySignature(`${body} `, sign(body, "key"), "key")).toBe(false)
+        expect(verifySignature(body, sign(body, "other"), "key")).toBe(false)
+    })
+})
+
+describe("isValidIpRange", () => {
+    it("accepts addresses and IPv4 ranges", () => {
+        expect(isValidIpRange("192.168.1.10")).toBe(true)
+        expect(isValidIpRange("10.0.0.0/8")).toBe(true)
+        expect(isValidIpRange("::1")).toBe(true)
+    })
+
+    it("rejects invalid entries", () => {
+        expect(isValidIpRange("300.1.1.1")).toBe(false)
+        expect(isValidIpRange("10.0.0.0/33")).toBe(false)
+        expect(isValidIpRange("localhost")).toBe(false)
+    })
+
+    it("rejects addresses with ports and malformed IPv6 addresses", () => {
+        expect(isValidIpRange("10.0.0.5:8080")).toBe(false)
+        expect(isValidIpRange("garbage:")).toBe(false)
+        expect(isValidIpRange("fe80::1::2")).toBe(false)
+        expect(isValidIpRange("[::1]:8481")).toBe(false)
+        expect(isValidIpRange("::1/128")).toBe(false)
+    })
+})
+
+describe("isIpAllowed", () => {
+    const allowed = ["192.168.1.0/24", "10.0.0.5", "::1"]
+
+    it("matches addresses and ranges", () => {
+        expect(isIpAllowed("192.168.1.77", allowed)).toBe(true)
+        expect(isIpAllowed("10.0.0.5", allowed)).toBe(true)
+        expect(isIpAllowed("::1", allowed)).toBe(true)
+        expect(isIpAllowed("0:0:0:0:0:0:0:1", allowed)).toBe(true)
+    })
+
+    it("matches IPv4-mapped IPv6 addresses", () => {
+        expect(isIpAllowed("::ffff:192.168.1.3", allowed)).toBe(true)
+    })
+
+    it("rejects other addresses", () => {
+        expect(isIpAllowed("192.168.2.1", allowed)).toBe(false)
+        expect(isIpAllowed("10.0.0.6", allowed)).toBe(false)
+    })
+})
+
+describe("checkWebhookAuth", () => {
+    it("allows every request without options", () => {
+        expect(checkWebhookAuth(new Headers(), body, undefined, {})).toBeNull()
+    })
+
+    it("checks the Authorization header", () => {
+        const options = { secret: "s3cret" }
+        expect(checkWebhookAuth(new Headers({ Authorization: "s3cret" }), body, "1.2.3.4", options)).toBeNull()
+        expect(checkWebhookAuth(new Headers({ Authorization: "wrong" }), body, "1.2.3.4", options)?.status).toBe(401)
+        expect(checkWebhookAuth(new Headers(), body, "1.2.3.4", options)?.status).toBe(401)
+    })
+
+    it("checks the body signature", () => {
+        const options = { hmacSecret: "key" }
+        expect(checkWebhookAuth(new Headers({ [SIGNATURE_HEADER]: sign(body, "key") }), body, undefined, options)).toBeNull()
+        expect(checkWebhookAuth(new Headers({ [SIGNATURE_HEADER]: sign("{}", "key") }), body, undefined, options)?.status).toBe(401)
+    })
+
+    it("rejects addresses outside the allowlist with 403", () => {
+        const options = { secret: "s3cret", allowedIps: ["10.0.0.0/8"] }
+        expect(checkWebhookAuth(new Headers({ Authorization: "s3cret" }), body, "10.1.2.3", options)).toBeNull()
+        expect(checkWebhookAuth(new Headers({ Authorization: "s3cret" }), body, "192.168.1.1", options)?.status).toBe(403)
+        expect(checkWebhookAuth(new Headers({ Authorization: "s3cret" }), body, undefined, options)?.status).toBe(403)
+    })
+})
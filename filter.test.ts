@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test"
-import { matchValue, matchKeywords, matchContentRatings, findInstances } from "./src/services/filter"
+import { matchValue, matchKeywords, matchContentRatings, extractCertifications, matchNumeric, matchDate, matchRegex, findInstances, findMatchingFilters, describeFilter, sortFilters, mergeTargets, mergeFallbacks, mergeRequestOptions, matchSeasons, splitSeasons, getUserGroups, matchUserGroups, matchSchedule } from "./src/services/filter"
 
 // ============================================================
 // matchValue — direct unit tests
@@ -174,6 +174,16 @@ describe("matchKeywords", () => {
         })
     })
 
+    describe("regex condition", () => {
+        it("matches keyword names against a pattern", () => {
+            expect(matchKeywords(keywords, { regex: "^roman" })).toBe(true)
+        })
+
+        it("fails when no keyword matches the pattern", () => {
+            expect(matchKeywords(keywords, { regex: "^empire" })).toBe(false)
+        })
+    })
+
     describe("empty keywords", () => {
         it("returns false for simple condition with empty keywords", () => {
             expect(matchKeywords([], "epic")).toBe(false)
@@ -239,6 +249,11 @@ describe("matchContentRatings", () => {
         expect(matchContentRatings(ratings as any, { exclude: "R" })).toBe(true)
     })
 
+    it("matches regex condition against whole ratings", () => {
+        expect(matchContentRatings(ratings as any, { regex: "^1[56]$" })).toBe(true)
+        expect(matchContentRatings(ratings as any, { regex: "^1$" })).toBe(false)
+    })
+
     it("returns false for null contentRatings", () => {
         expect(matchContentRatings(null as any, "16")).toBe(false)
     })
@@ -250,6 +265,262 @@ describe("matchContentRatings", () => {
     it("returns false for empty results array", () => {
         expect(matchContentRatings({ results: [] } as any, "16")).toBe(false)
     })
+
+    it("compares numeric ratings with numeric operators", () => {
+        const adult = { results: [{ iso_3166_1: "DE", rating: "18" }] }
+        expect(matchContentRatings(adult as any, { lt: 12 })).toBe(false)
+        expect(matchContentRatings(adult as any, { gte: 16 })).toBe(true)
+        expect(matchContentRatings(ratings as any, { between: [15, 16] })).toBe(true)
+    })
+
+    it("applies numeric operators to the ratings of the given regions", () => {
+        expect(matchContentRatings(ratings as any, { region: "GB", gt: 15 })).toBe(false)
+        expect(matchContentRatings(ratings as any, { region: "DE", gt: 15 })).toBe(true)
+    })
+
+    it("does not match non-numeric ratings with numeric operators", () => {
+        expect(matchContentRatings(ratings as any, { region: "US", lt: 100 })).toBe(false)
+    })
+})
+
+// ============================================================
+// matchRegex — direct unit tests
+// ============================================================
+
+describe("matchRegex", () => {
+    it("matches a pattern against a string", () => {
+        expect(matchRegex("Season \\d+ Part", "Attack on Titan Season 3 Part 2")).toBe(true)
+    })
+
+    it("is case-insensitive", () => {
+        expect(matchRegex("^gladiator", "Gladiator II")).toBe(true)
+    })
+
+    it("returns false when nothing matches", () => {
+        expect(matchRegex("Season \\d+ Part", "Season Finale")).toBe(false)
+    })
+
+    it("matches any of multiple patterns", () => {
+        expect(matchRegex(["@example\\.com$", "@test\\.com$"], "user@test.com")).toBe(true)
+    })
+
+    it("anchors apply to each extracted value", () => {
+        expect(matchRegex("^action$", [{ name: "Action" }, { name: "Comedy" }])).toBe(true)
+        expect(matchRegex("^act$", [{ name: "Action" }])).toBe(false)
+    })
+})
+
+// ============================================================
+// matchNumeric — direct unit tests
+// ============================================================
+
+describe("matchNumeric", () => {
+    it("matches gt strictly", () => {
+        expect(matchNumeric({ gt: 150 }, 151)).toBe(true)
+        expect(matchNumeric({ gt: 150 }, 150)).toBe(false)
+    })
+
+    it("matches gte inclusively", () => {
+        expect(matchNumeric({ gte: 150 }, 150)).toBe(true)
+    })
+
+    it("matches lt and lte", () => {
+        expect(matchNumeric({ lt: 7 }, 6.9)).toBe(true)
+        expect(matchNumeric({ lt: 7 }, 7)).toBe(false)
+        expect(matchNumeric({ lte: 7 }, 7)).toBe(true)
+    })
+
+    it("matches between inclusively", () => {
+        expect(matchNumeric({ between: [10, 50] }, 10)).toBe(true)
+        expect(matchNumeric({ between: [10, 50] }, 50)).toBe(true)
+        expect(matchNumeric({ between: [10, 50] }, 50.1)).toBe(false)
+    })
+
+    it("accepts between bounds in either order", () => {
+        expect(matchNumeric({ between: [50, 10] }, 25)).toBe(true)
+    })
+
+    it("requires every bound to hold", () => {
+        expect(matchNumeric({ gt: 5, lt: 10 }, 12)).toBe(false)
+        expect(matchNumeric({ gt: 5, lt: 10 }, 7)).toBe(true)
+    })
+
+    it("compares numerically rather than by substring", () => {
+        expect(matchNumeric({ gte: 7, lt: 8 }, 17)).toBe(false)
+    })
+
+    it("accepts numeric strings", () => {
+        expect(matchNumeric({ gt: 100 }, "148")).toBe(true)
+    })
+
+    it("matches when any array element satisfies the bounds", () => {
+        expect(matchNumeric({ gt: 40 }, [24, 45])).toBe(true)
+    })
+
+    it("returns false for non-numeric values", () => {
+        expect(matchNumeric({ gt: 0 }, "Released")).toBe(false)
+        expect(matchNumeric({ gt: 0 }, [])).toBe(false)
+    })
+})
+
+// ============================================================
+// matchDate — direct unit tests
+// ============================================================
+
+describe("matchDate", () => {
+    const now = new Date("2025-06-15T12:00:00Z")
+
+    it("matches before an absolute date", () => {
+        expect(matchDate({ before: "2000-01-01" }, "1999-12-31", now)).toBe(true)
+        expect(matchDate({ before: "2000-01-01" }, "2000-01-01", now)).toBe(false)
+    })
+
+    it("matches after an absolute date", () => {
+        expect(matchDate({ after: "2020-01-01" }, "2024-11-13", now)).toBe(true)
+        expect(matchDate({ after: "2020-01-01" }, "2019-05-01", now)).toBe(false)
+    })
+
+    it("matches releases within the last N days", () => {
+        expect(matchDate({ within_days: 30 }, "2025-06-01", now)).toBe(true)
+        expect(matchDate({ within_days: 30 }, "2025-04-01", now)).toBe(false)
+    })
+
+    it("does not treat future dates as within the last N days", () => {
+        expect(matchDate({ within_days: 30 }, "2025-06-20", now)).toBe(false)
+    })
+
+    it("matches unreleased titles", () => {
+        expect(matchDate({ unreleased: true }, "2025-12-25", now)).toBe(true)
+        expect(matchDate({ unreleased: true }, "2025-01-01", now)).toBe(false)
+    })
+
+    it("matches released titles with unreleased=false", () => {
+        expect(matchDate({ unreleased: false }, "2025-01-01", now)).toBe(true)
+        expect(matchDate({ unreleased: false }, "2025-12-25", now)).toBe(false)
+    })
+
+    it("matches titles older than N years", () => {
+        expect(matchDate({ older_than_years: 10 }, "2010-03-01", now)).toBe(true)
+        expect(matchDate({ older_than_years: 10 }, "2020-03-01", now)).toBe(false)
+    })
+
+    it("requires every operator to hold", () => {
+        expect(matchDate({ after: "2000-01-01", older_than_years: 10 }, "2010-03-01", now)).toBe(true)
+        expect(matchDate({ after: "2012-01-01", older_than_years: 10 }, "2010-03-01", now)).toBe(false)
+    })
+
+    it("returns false for missing or invalid dates", () => {
+        expect(matchDate({ unreleased: true }, "", now)).toBe(false)
+        expect(matchDate({ before: "2000-01-01" }, "unknown", now)).toBe(false)
+    })
+})
+
+describe("matchContentRatings with region", () => {
+    const ratings = {
+        results: [
+            { iso_3166_1: "US", rating: "PG-13" },
+            { iso_3166_1: "DE", rating: "12" },
+            { iso_3166_1: "NL", rating: "12" },
+        ],
+    }
+
+    it("only considers ratings from the given region", () => {
+        expect(matchContentRatings(ratings as any, { region: "DE", include: "12" })).toBe(true)
+        expect(matchContentRatings(ratings as any, { region: "US", include: "12" })).toBe(false)
+    })
+
+    it("accepts multiple regions", () => {
+        expect(matchContentRatings(ratings as any, { region: ["us", "nl"], exclude: "16" })).toBe(true)
+    })
+
+    it("returns false when the region has no rating", () => {
+        expect(matchContentRatings(ratings as any, { region: "GB", exclude: "18" })).toBe(false)
+    })
+
+    it("combines region with regex for exact rating lists", () => {
+        const kids = { region: "US", regex: "^(g|pg|tv-y|tv-y7)$" }
+        expect(matchContentRatings(ratings as any, kids)).toBe(false)
+        expect(matchContentRatings({ results: [{ iso_3166_1: "US", rating: "PG" }] } as any, kids)).toBe(true)
+    })
+})
+
+// ============================================================
+// matchSchedule — direct unit tests
+// ============================================================
+
+describe("matchSchedule", () => {
+    // Saturday 2025-06-14 23:30 UTC
+    const saturdayNight = new Date("2025-06-14T23:30:00Z")
+
+    it("matches days of the week", () => {
+        expect(matchSchedule({ days: ["sat", "sun"] }, saturdayNight, "UTC")).toBe(true)
+        expect(matchSchedule({ days: ["monday"] }, saturdayNight, "UTC")).toBe(false)
+    })
+
+    it("matches time ranges", () => {
+        expect(matchSchedule({ start: "18:00", end: "23:59" }, saturdayNight, "UTC")).toBe(true)
+        expect(matchSchedule({ start: "08:00", end: "18:00" }, saturdayNight, "UTC")).toBe(false)
+    })
+
+    it("excludes the end of the range", () => {
+        expect(matchSchedule({ start: "22:00", end: "23:30" }, saturdayNight, "UTC")).toBe(false)
+    })
+
+    it("wraps ranges past midnight", () => {
+        expect(matchSchedule({ start: "22:00", end: "06:00" }, saturdayNight, "UTC")).toBe(true)
+        expect(matchSchedule({ start: "22:00", end: "06:00" }, new Date("2025-06-14T12:00:00Z"), "UTC")).toBe(false)
+    })
+
+    it("evaluates in the configured timezone", () => {
+        // 23:30 UTC is already Sunday 01:30 in Berlin (CEST)
+        expect(matchSchedule({ days: ["sun"], end: "02:00" }, saturdayNight, "Europe/Berlin")).toBe(true)
+    })
+
+    it("prefers the schedule's own timezone", () => {
+        expect(matchSchedule({ days: ["sat"], timezone: "America/New_York" }, saturdayNight, "Europe/Berlin")).toBe(true)
+    })
+})
+
+// ============================================================
+// extractCertifications — direct unit tests
+// ============================================================
+
+describe("extractCertifications", () => {
+    it("returns tv content ratings", () => {
+        const data: any = { contentRatings: { results: [{ iso_3166_1: "US", rating: "TV-14" }] } }
+        expect(extractCertifications(data).results).toEqual([{ iso_3166_1: "US", rating: "TV-14" }])
+    })
+
+    it("extracts movie certifications from releases", () => {
+        const data: any = {
+            releases: {
+                results: [
+                    {
+                        iso_3166_1: "US",
+                        release_dates: [
+                            { certification: "R", type: 3 },
+                            { certification: "", type: 4 },
+                            { certification: "R", type: 5 },
+                        ],
+                    },
+                    { iso_3166_1: "DE", release_dates: [{ certification: "16", type: 3 }] },
+                ],
+            },
+        }
+        expect(extractCertifications(data).results).toEqual([
+            { iso_3166_1: "US", rating: "R" },
+            { iso_3166_1: "DE", rating: "16" },
+        ])
+    })
+
+    it("extracts movie certifications from releaseDates", () => {
+        const data: any = { releaseDates: { results: [{ iso_3166_1: "GB", releaseDates: [{ certification: "15" }] }] } }
+        expect(extractCertifications(data).results).toEqual([{ iso_3166_1: "GB", rating: "15" }])
+    })
+
+    it("returns an empty list when no certifications exist", () => {
+        expect(extractCertifications({} as any).results).toEqual([])
+    })
 })
 
 // ============================================================
@@ -382,6 +653,248 @@ describe("findInstances - additional edge cases", () => {
         })
     })
 
+    describe("multi-match", () => {
+        const layered: any = [
+            { media_type: "movie", conditions: { keywords: "epic" }, apply: "epic" },
+            { media_type: "movie", conditions: { originalLanguage: "fr" }, apply: "french" },
+            { media_type: "movie", apply: ["mirror", "epic"] },
+        ]
+
+        it("merges and de-duplicates targets from every matching filter in all mode", () => {
+            expect(findInstances(movieWebhook, movieData, layered, { matchMode: "all" })).toEqual(["epic", "mirror"])
+        })
+
+        it("stops at the first match in first mode", () => {
+            expect(findInstances(movieWebhook, movieData, layered, { matchMode: "first" })).toBe("epic")
+        })
+
+        it("keeps evaluating after a filter with continue: true", () => {
+            const filters: any = [{ ...layered[0], continue: true }, layered[1], layered[2], { media_type: "movie", apply: "never" }]
+            expect(findInstances(movieWebhook, movieData, filters)).toEqual(["epic", "mirror"])
+        })
+
+        it("returns the matching filters in order", () => {
+            expect(findMatchingFilters(movieWebhook, movieData, layered, { matchMode: "all" })).toEqual([layered[0], layered[2]])
+        })
+
+        it("returns an empty list when nothing matches", () => {
+            expect(findMatchingFilters(tvWebhook, tvData, layered, { matchMode: "all" })).toEqual([])
+        })
+    })
+
+    describe("filter priority and names", () => {
+        it("evaluates higher priority filters first", () => {
+            const filters: any = [
+                { media_type: "movie", apply: "catch-all" },
+                { media_type: "movie", priority: 10, conditions: { keywords: "epic" }, apply: "epic" },
+            ]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe("epic")
+        })
+
+        it("keeps config order for equal priorities", () => {
+            const filters: any = [
+                { name: "a", media_type: "movie", priority: 1, apply: "a" },
+                { name: "b", media_type: "movie", apply: "b" },
+                { name: "c", media_type: "movie", priority: 1, apply: "c" },
+            ]
+            expect(sortFilters(filters).map((f) => f.name)).toEqual(["a", "c", "b"])
+        })
+
+        it("supports negative priorities", () => {
+            const filters: any = [
+                { media_type: "movie", priority: -1, apply: "fallback" },
+                { media_type: "movie", apply: "default" },
+            ]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe("default")
+        })
+
+        it("describes named filters by name and unnamed filters by position", () => {
+            const filters: any = [{ media_type: "movie", apply: "x" }, { name: "anime", media_type: "tv", apply: "y" }]
+            expect(describeFilter(filters[0], filters)).toBe("#0")
+            expect(describeFilter(filters[1], filters)).toBe('"anime"')
+        })
+    })
+
+    describe("filter actions", () => {
+        it("returns a non-route filter on its own", () => {
+            const decline: any = { media_type: "movie", action: "decline", reason: "No 4K" }
+            const filters: any = [decline, { media_type: "movie", apply: "radarr" }]
+            expect(findMatchingFilters(movieWebhook, movieData, filters, { matchMode: "all" })).toEqual([decline])
+        })
+
+        it("has no apply targets for non-route filters", () => {
+            const filters: any = [{ media_type: "movie", action: "hold" }]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe(null)
+        })
+
+        it("ignores non-route filters after earlier route matches", () => {
+            const route: any = { media_type: "movie", apply: "radarr", continue: true }
+            const filters: any = [route, { media_type: "movie", action: "decline" }, { media_type: "movie", apply: "mirror" }]
+            expect(findMatchingFilters(movieWebhook, movieData, filters)).toEqual([route, filters[2]])
+        })
+
+        it("treats an explicit route action like the default", () => {
+            const filters: any = [{ media_type: "movie", action: "route", apply: "radarr" }]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe("radarr")
+        })
+
+        it("merges only routing targets", () => {
+            const filters: any = [{ media_type: "movie", action: "approve" }, { media_type: "movie", apply: ["a", "b"] }]
+            expect(mergeTargets(filters)).toEqual(["a", "b"])
+        })
+
+        it("returns apply targets with overrides", () => {
+            const kids = { instance: "radarr", root_folder: "/mnt/movies/kids", quality_profile_id: 4 }
+            const filters: any = [{ media_type: "movie", apply: kids, continue: true }, { media_type: "movie", apply: ["radarr", kids] }]
+            expect(findInstances(movieWebhook, movieData, [filters[0]])).toEqual(kids)
+            expect(mergeTargets(filters)).toEqual([kids, "radarr"])
+        })
+
+        it("merges fallbacks of routing filters in match order", () => {
+            const filters: any = [
+                { media_type: "movie", apply: "a", fallback: ["c", "d"] },
+                { media_type: "movie", action: "hold", fallback: "e" },
+                { media_type: "movie", apply: "b", fallback: "d" },
+                { media_type: "movie", apply: "f" },
+            ]
+            expect(mergeFallbacks(filters)).toEqual(["c", "d"])
+        })
+
+        it("merges request options of routing filters", () => {
+            const filters: any = [
+                { media_type: "tv", apply: "a", tags: [1, 2] },
+                { media_type: "tv", apply: "b", language_profile_id: 3, tags: [2, 5] },
+                { media_type: "tv", apply: "c", language_profile_id: 4 },
+            ]
+            expect(mergeRequestOptions(filters)).toEqual({ languageProfileId: 3, tags: [1, 2, 5] })
+            expect(mergeRequestOptions([{ media_type: "tv", apply: "a" }])).toEqual({})
+        })
+    })
+
+    describe("season routing", () => {
+        const seasonWebhook: any = { ...tvWebhook, extra: [{ name: "Requested Seasons", value: "0,1,2,4,5" }] }
+        const seasonFilters: any = [
+            { media_type: "tv", seasons: 0, apply: "specials" },
+            { media_type: "tv", seasons: { between: [1, 3] }, apply: "archive" },
+            { media_type: "tv", apply: "sonarr" },
+        ]
+
+        it("matches season numbers, lists and ranges", () => {
+            expect(matchSeasons(0, [0])).toBe(true)
+            expect(matchSeasons([1, 2], [2])).toBe(true)
+            expect(matchSeasons({ gte: 4 }, [4, 5])).toBe(true)
+            expect(matchSeasons({ gte: 4 }, [3, 4])).toBe(false)
+            expect(matchSeasons({ gte: 4 }, [])).toBe(false)
+        })
+
+        it("only matches a season filter when every requested season satisfies it", () => {
+            const webhook: any = { ...tvWebhook, extra: [{ name: "Requested Seasons", value: "1,2" }] }
+            expect(findInstances(webhook, tvData, seasonFilters)).toBe("archive")
+            expect(findInstances(seasonWebhook, tvData, seasonFilters)).toBe("sonarr")
+        })
+
+        it("groups seasons by the filters they match", () => {
+            const groups = splitSeasons(seasonWebhook, tvData, seasonFilters)
+            expect(groups.map((g) => g.seasons)).toEqual([[0], [1, 2], [4, 5]])
+            expect(groups.map((g) => g.matches.map((f: any) => f.apply))).toEqual([["specials"], ["archive"], ["sonarr"]])
+        })
+
+        it("returns a single group when every season matches the same filters", () => {
+            const webhook: any = { ...tvWebhook, extra: [{ name: "Requested Seasons", value: "4,5" }] }
+            expect(splitSeasons(webhook, tvData, seasonFilters)).toHaveLength(1)
+        })
+
+        it("does not match season filters for movies", () => {
+            const filters: any = [{ media_type: "movie", seasons: { gte: 0 }, apply: "never" }]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe(null)
+        })
+    })
+
+    describe("user groups", () => {
+        const userGroups = {
+            family: ["testuser", "mum@test.com"],
+            friends: ["user@test.com"],
+            guests: ["user2"],
+        }
+
+        it("resolves groups by exact username or email", () => {
+            expect(getUserGroups(movieWebhook, userGroups)).toEqual(["family", "friends"])
+        })
+
+        it("does not substring-match usernames", () => {
+            const webhook: any = { ...movieWebhook, request: { ...movieWebhook.request, requestedBy_username: "user", requestedBy_email: "" } }
+            expect(getUserGroups(webhook, userGroups)).toEqual([])
+        })
+
+        it("matches group membership with include/require/exclude", () => {
+            expect(matchUserGroups(["family"], "family")).toBe(true)
+            expect(matchUserGroups(["family"], ["guests", "family"])).toBe(true)
+            expect(matchUserGroups(["family"], { require: ["family", "friends"] })).toBe(false)
+            expect(matchUserGroups(["family"], { exclude: "guests" })).toBe(true)
+            expect(matchUserGroups([], "family")).toBe(false)
+        })
+
+        it("routes by requestedBy_group in findInstances", () => {
+            const filters: any = [
+                { media_type: "movie", conditions: { requestedBy_group: "guests" }, apply: "guests" },
+                { media_type: "movie", conditions: { requestedBy_group: "family" }, apply: "family" },
+            ]
+            expect(findInstances(movieWebhook, movieData, filters, { userGroups })).toBe("family")
+        })
+
+        it("evaluates requestedBy_group inside condition groups", () => {
+            const filters: any = [{ media_type: "movie", conditions: { not: { requestedBy_group: "family" } }, apply: "others" }]
+            expect(findInstances(movieWebhook, movieData, filters, { userGroups })).toBe(null)
+        })
+    })
+
+    describe("user profile fields", () => {
+        const user: any = { id: 3, type: "local", permissions: ["request"], accountAgeDays: 2, requestCount: 40 }
+
+        it("matches user.* fields against the user profile", () => {
+            const filters: any = [{
+                media_type: "movie",
+                conditions: { "user.accountAgeDays": { lt: 30 }, "user.type": "local" },
+                apply: "holding",
+            }]
+            expect(findInstances(movieWebhook, movieData, filters, { user })).toBe("holding")
+        })
+
+        it("matches permission names", () => {
+            const filters: any = [{ media_type: "movie", conditions: { "user.permissions": { exclude: "auto_approve" } }, apply: "untrusted" }]
+            expect(findInstances(movieWebhook, movieData, filters, { user })).toBe("untrusted")
+        })
+
+        it("fails user.* conditions when no profile is available", () => {
+            const filters: any = [{ media_type: "movie", conditions: { "user.requestCount": { gt: 0 } }, apply: "holding" }]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe(null)
+        })
+    })
+
+    describe("schedule conditions", () => {
+        const overnight: any = [{ media_type: "movie", conditions: { schedule: { start: "22:00", end: "06:00" } }, apply: "off-peak" }]
+
+        it("matches within the schedule", () => {
+            const now = new Date("2025-06-14T02:00:00Z")
+            expect(findInstances(movieWebhook, movieData, overnight, { now, timezone: "UTC" })).toBe("off-peak")
+        })
+
+        it("fails outside the schedule", () => {
+            const now = new Date("2025-06-14T12:00:00Z")
+            expect(findInstances(movieWebhook, movieData, overnight, { now, timezone: "UTC" })).toBe(null)
+        })
+
+        it("matches any of several schedules", () => {
+            const filters: any = [{
+                media_type: "movie",
+                conditions: { schedule: [{ days: ["sat", "sun"] }, { start: "22:00", end: "06:00" }] },
+                apply: "off-peak",
+            }]
+            const saturdayNoon = new Date("2025-06-14T12:00:00Z")
+            expect(findInstances(movieWebhook, movieData, filters, { now: saturdayNoon, timezone: "UTC" })).toBe("off-peak")
+        })
+    })
+
     describe("apply returns array of instances", () => {
         it("returns array when filter apply is an array", () => {
             const filters: any = [{ media_type: "movie", apply: ["inst1", "inst2"] }]
@@ -453,6 +966,20 @@ describe("findInstances - additional edge cases", () => {
             expect(findInstances(movieWebhook, movieData, filters)).toBe("rating-match")
         })
 
+        it("matches movie release certifications scoped to a region", () => {
+            const data: any = {
+                ...movieData,
+                contentRatings: undefined,
+                releases: { results: [{ iso_3166_1: "US", release_dates: [{ certification: "PG" }] }] },
+            }
+            const filters: any = [{
+                media_type: "movie",
+                conditions: { contentRatings: { region: "US", regex: "^(g|pg)$" } },
+                apply: "kids",
+            }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("kids")
+        })
+
         it("fails when data has no contentRatings", () => {
             const dataNoRatings: any = { ...movieData, contentRatings: undefined }
             const filters: any = [{
@@ -476,6 +1003,157 @@ describe("findInstances - additional edge cases", () => {
         })
     })
 
+    describe("regex operator", () => {
+        it("matches requestedBy_email domain", () => {
+            const filters: any = [{ media_type: "movie", conditions: { requestedBy_email: { regex: "@test\\.com$" } }, apply: "domain" }]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe("domain")
+        })
+
+        it("fails when the pattern does not match", () => {
+            const filters: any = [{ media_type: "movie", conditions: { originalTitle: { regex: "^Movie" } }, apply: "title" }]
+            expect(findInstances(movieWebhook, movieData, filters)).toBe(null)
+        })
+    })
+
+    describe("numeric comparison operators", () => {
+        const data: any = { ...movieData, runtime: 148, voteAverage: 7.3, popularity: 17 }
+
+        it("matches runtime over a threshold", () => {
+            const filters: any = [{ media_type: "movie", conditions: { runtime: { gt: 140 } }, apply: "long" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("long")
+        })
+
+        it("fails runtime under a threshold", () => {
+            const filters: any = [{ media_type: "movie", conditions: { runtime: { gt: 150 } }, apply: "long" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe(null)
+        })
+
+        it("matches popularity between bounds", () => {
+            const filters: any = [{ media_type: "movie", conditions: { popularity: { between: [10, 50] } }, apply: "mid" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("mid")
+        })
+
+        it("does not substring-match numeric ranges", () => {
+            const filters: any = [{ media_type: "movie", conditions: { voteAverage: { gte: 3, lt: 4 } }, apply: "low" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe(null)
+        })
+    })
+
+    describe("date operators", () => {
+        it("matches upcoming releases", () => {
+            const data: any = { ...movieData, releaseDate: new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10) }
+            const filters: any = [{ media_type: "movie", conditions: { releaseDate: { unreleased: true } }, apply: "wanted" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("wanted")
+        })
+
+        it("matches back-catalogue titles", () => {
+            const data: any = { ...movieData, releaseDate: "1985-07-03" }
+            const filters: any = [{ media_type: "movie", conditions: { releaseDate: { older_than_years: 20 } }, apply: "archive" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("archive")
+        })
+
+        it("fails when the date does not satisfy the operator", () => {
+            const data: any = { ...movieData, releaseDate: "1985-07-03" }
+            const filters: any = [{ media_type: "movie", conditions: { releaseDate: { after: "2000-01-01" } }, apply: "recent" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe(null)
+        })
+    })
+
+    describe("nested condition groups", () => {
+        const kidsData: any = { ...tvData, genres: [{ id: 10762, name: "Kids" }] }
+        const groupFilters: any = [{
+            media_type: "tv",
+            conditions: {
+                any_of: [{ keywords: "anime" }, { originalLanguage: "ja" }],
+                not: { genres: "kids" },
+            },
+            apply: "anime",
+        }]
+
+        it("matches when one any_of branch matches", () => {
+            const data: any = { ...tvData, keywords: [{ name: "magic" }] }
+            expect(findInstances(tvWebhook, data, groupFilters)).toBe("anime")
+        })
+
+        it("fails when no any_of branch matches", () => {
+            const data: any = { ...tvData, originalLanguage: "en", keywords: [{ name: "magic" }] }
+            expect(findInstances(tvWebhook, data, groupFilters)).toBe(null)
+        })
+
+        it("fails when the not group matches", () => {
+            expect(findInstances(tvWebhook, kidsData, groupFilters)).toBe(null)
+        })
+
+        it("requires every all_of branch to match", () => {
+            const filters: any = [{
+                media_type: "tv",
+                conditions: { all_of: [{ originalLanguage: "ja" }, { keywords: "magic" }] },
+                apply: "all",
+            }]
+            expect(findInstances(tvWebhook, tvData, filters)).toBe("all")
+            expect(findInstances(tvWebhook, { ...tvData, keywords: [] }, filters)).toBe(null)
+        })
+
+        it("nests groups arbitrarily", () => {
+            const filters: any = [{
+                media_type: "tv",
+                conditions: {
+                    not: { any_of: [{ originalLanguage: "en" }, { all_of: [{ keywords: "anime" }, { genres: "kids" }] }] },
+                },
+                apply: "nested",
+            }]
+            expect(findInstances(tvWebhook, tvData, filters)).toBe("nested")
+            expect(findInstances(tvWebhook, kidsData, filters)).toBe(null)
+        })
+
+        it("combines groups with flat keys", () => {
+            const filters: any = [{
+                media_type: "tv",
+                conditions: { originalLanguage: "en", any_of: [{ keywords: "anime" }] },
+                apply: "combined",
+            }]
+            expect(findInstances(tvWebhook, tvData, filters)).toBe(null)
+        })
+    })
+
+    describe("dot-path condition keys", () => {
+        const data: any = {
+            ...movieData,
+            productionCountries: [{ iso_3166_1: "GB", name: "United Kingdom" }],
+            productionCompanies: [{ name: "US Pictures", originCountry: "GB" }],
+            credits: { crew: [{ job: "Director", name: "Ridley Scott" }, { job: "Writer", name: "David Scarpa" }] },
+        }
+
+        it("targets a nested property across array elements", () => {
+            const filters: any = [{ media_type: "movie", conditions: { "productionCountries.iso_3166_1": "gb" }, apply: "uk" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("uk")
+        })
+
+        it("does not match values from sibling properties", () => {
+            const filters: any = [{ media_type: "movie", conditions: { "productionCompanies.originCountry": "us" }, apply: "us" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe(null)
+        })
+
+        it("supports selectors in the path", () => {
+            const filters: any = [{
+                media_type: "movie",
+                conditions: { "credits.crew[job=Director].name": { require: "ridley scott" } },
+                apply: "scott",
+            }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("scott")
+        })
+
+        it("resolves paths into the webhook media object", () => {
+            const filters: any = [{ media_type: "movie", conditions: { "media.status4k": "unknown" }, apply: "media" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe("media")
+        })
+
+        it("fails when the path does not resolve", () => {
+            const filters: any = [{ media_type: "movie", conditions: { "credits.cast.name": "x" }, apply: "cast" }]
+            expect(findInstances(movieWebhook, data, filters)).toBe(null)
+        })
+    })
+
     describe("generic field with require/include/exclude objects", () => {
         it("matches genre with require (exact match)", () => {
             const filters: any = [{
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test"
-import { isWebhook, isObject, isObjectArray, getPostData, normalizeToArray, formatDebugLogEntry, buildDebugLogMessage } from "./src/utils/helpers"
+import { isWebhook, isObject, isObjectArray, getPostData, getRequestedSeasons, normalizeToArray, formatDebugLogEntry, buildDebugLogMessage, toRegExp, resolvePath, buildUserProfile, sanitizePathSegment, renderPathTemplate, getStaticPathPrefix } from "./src/utils/helpers"
 
 describe("isWebhook", () => {
     it("returns true for valid webhook structure", () => {
@@ -188,6 +188,18 @@ describe("getPostData", () => {
     })
 })
 
+describe("getRequestedSeasons", () => {
+    it("parses the Requested Seasons extra entry", () => {
+        const webhook: any = { media: { media_type: "tv" }, extra: [{ name: "Requested Seasons", value: "0, 1, 2" }] }
+        expect(getRequestedSeasons(webhook)).toEqual([0, 1, 2])
+    })
+
+    it("returns an empty list without extra data", () => {
+        const webhook: any = { media: { media_type: "tv" } }
+        expect(getRequestedSeasons(webhook)).toEqual([])
+    })
+})
+
 describe("normalizeToArray", () => {
     it("wraps a string in an array and lowercases", () => {
         expect(normalizeToArray("Hello")).toEqual(["hello"])
@@ -259,3 +271,167 @@ describe("buildDebugLogMessage", () => {
         expect(result).toContain("Header:")
     })
 })
+
+describe("toRegExp", () => {
+    it("compiles a case-insensitive pattern", () => {
+        expect(toRegExp("^abc$").test("ABC")).toBe(true)
+    })
+
+    it("reuses compiled patterns", () => {
+        expect(toRegExp("season \\d+")).toBe(toRegExp("season \\d+"))
+    })
+
+    it("throws for invalid patterns", () => {
+        expect(() => toRegExp("(unclosed")).toThrow()
+    })
+})
+
+describe("resolvePath", () => {
+    const data = {
+        originalLanguage: "en",
+        genres: [{ id: 28, name: "Action" }, { id: 12, name: "Adventure" }],
+        productionCountries: [{ iso_3166_1: "US", name: "United States of America" }],
+        credits: {
+            crew: [
+                { job: "Director", name: "Ridley Scott" },
+                { job: "Producer", name: "Lucy Fisher" },
+            ],
+        },
+    }
+
+    it("resolves a top-level key", () => {
+        expect(resolvePath(data, "originalLanguage")).toBe("en")
+    })
+
+    it("fans out over arrays", () => {
+        expect(resolvePath(data, "genres.name")).toEqual(["Action", "Adventure"])
+    })
+
+    it("resolves array indices", () => {
+        expect(resolvePath(data, "genres[0].name")).toBe("Action")
+        expect(resolvePath(data, "genres[-1].name")).toBe("Adventure")
+    })
+
+    it("filters arrays by key=value selectors", () => {
+        expect(resolvePath(data, "credits.crew[job=Director].name")).toEqual(["Ridley Scott"])
+    })
+
+    it("matches selector values case-insensitively", () => {
+        expect(resolvePath(data, "credits.crew[job=director].name")).toEqual(["Ridley Scott"])
+    })
+
+    it("returns undefined for missing paths", () => {
+        expect(resolvePath(data, "credits.cast.name")).toBeUndefined()
+        expect(resolvePath(data, "genres[5].name")).toBeUndefined()
+        expect(resolvePath(data, "credits.crew[job=Writer].name")).toBeUndefined()
+    })
+
+    it("returns undefined for non-object sources", () => {
+        expect(resolvePath(undefined, "genres")).toBeUndefined()
+    })
+})
+
+describe("buildUserProfile", () => {
+    const now = new Date("2025-06-15T00:00:00Z")
+
+    it("maps Overseerr user fields", () => {
+        const profile = buildUserProfile(
+            {
+                id: 7,
+                email: "user@test.com",
+                plexUsername: "plexuser",
+                userType: 1,
+                permissions: 32 | 128,
+                createdAt: "2025-06-01T00:00:00.000Z",
+                requestCount: 12,
+                movieQuotaLimit: 10,
+                movieQuotaDays: 7,
+                tvQuotaLimit: null,
+            },
+            now
+        )
+
+        expect(profile).toEqual({
+            id: 7,
+            username: "plexuser",
+            email: "user@test.com",
+            type: "plex",
+            permissions: ["request", "auto_approve"],
+            createdAt: "2025-06-01T00:00:00.000Z",
+            accountAgeDays: 14,
+            requestCount: 12,
+            movieQuotaLimit: 10,
+            movieQuotaDays: 7,
+            tvQuotaLimit: undefined,
+            tvQuotaDays: undefined,
+        })
+    })
+
+    it("maps jellyfin and local user types", () => {
+        expect(buildUserProfile({ id: 1, userType: 3 }).type).toBe("jellyfin")
+        expect(buildUserProfile({ id: 1, userType: 2 }).type).toBe("local")
+        expect(buildUserProfile({ id: 1 }).type).toBe("unknown")
+    })
+
+    it("leaves account age undefined without a creation date", () => {
+        expect(buildUserProfile({ id: 1 }).accountAgeDays).toBeUndefined()
+    })
+})
+
+describe("sanitizePathSegment", () => {
+    it("replaces path separators and unsafe characters", () => {
+        expect(sanitizePathSegment("AC/DC: Live?")).toBe("AC_DC_ Live_")
+        expect(sanitizePathSegment("a\\b")).toBe("a_b")
+    })
+
+    it("removes surrounding whitespace and trailing dots", () => {
+        expect(sanitizePathSegment("  Mr. Robot. ")).toBe("Mr. Robot")
+    })
+
+    it("does not allow parent directory references", () => {
+        expect(sanitizePathSegment("..")).toBe("")
+        expect(sanitizePathSegment(".")).toBe("")
+    })
+})
+
+describe("renderPathTemplate", () => {
+    const source: Record<string, unknown> = {
+        originalLanguage: "ja",
+        genres: [{ name: "Sci-Fi & Fantasy" }, { name: "Animation" }],
+        requestedBy_username: "../alice",
+        empty: "",
+    }
+    const resolve = (path: string) => resolvePath(source, path)
+
+    it("fills in placeholders from resolved fields", () => {
+        expect(renderPathTemplate("/mnt/tv/{originalLanguage}/{genres[0].name}", resolve, "Unknown")).toBe("/mnt/tv/ja/Sci-Fi & Fantasy")
+    })
+
+    it("uses the first value of a list", () => {
+        expect(renderPathTemplate("/mnt/{genres.name}", resolve, "Unknown")).toBe("/mnt/Sci-Fi & Fantasy")
+    })
+
+    it("sanitizes values so they stay inside the path", () => {
+        expect(renderPathTemplate("/mnt/movies/{requestedBy_username}", resolve, "Unknown")).toBe("/mnt/movies/.._alice")
+    })
+
+    it("uses the inline default, then the fallback, for missing values", () => {
+        expect(renderPathTemplate("/mnt/{missing|other}", resolve, "Unknown")).toBe("/mnt/other")
+        expect(renderPathTemplate("/mnt/{missing}/{empty}", resolve, "Unknown")).toBe("/mnt/Unknown/Unknown")
+    })
+
+    it("leaves paths without placeholders unchanged", () => {
+        expect(renderPathTemplate("/mnt/movies", resolve, "Unknown")).toBe("/mnt/movies")
+    })
+})
+
+describe("getStaticPathPrefix", () => {
+    it("returns the path before the first placeholder", () => {
+        expect(getStaticPathPrefix("/mnt/tv/{originalLanguage}/{genres[0].name}")).toBe("/mnt/tv/")
+        expect(getStaticPathPrefix("/mnt/{originalLanguage|en}/movies")).toBe("/mnt/")
+    })
+
+    it("returns undefined for paths without placeholders", () => {
+        expect(getStaticPathPrefix("/mnt/movies")).toBe(undefined)
+    })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "bun:test"
+import { resolveInstanceInheritance } from "./src/config/instances"
+
+describe("resolveInstanceInheritance", () => {
+    const defaults = { server_id: 0, quality_profile_id: 1, approve: false }
+
+    it("applies defaults to every instance", () => {
+        const instances = { movies: { root_folder: "/mnt/movies" }, kids: { root_folder: "/mnt/kids", approve: true } }
+        expect(resolveInstanceInheritance(instances, defaults)).toEqual({
+            movies: { server_id: 0, quality_profile_id: 1, approve: false, root_folder: "/mnt/movies" },
+            kids: { server_id: 0, quality_profile_id: 1, approve: true, root_folder: "/mnt/kids" },
+        })
+    })
+
+    it("inherits from extended instances in any order", () => {
+        const instances = {
+            kids: { extends: "movies", root_folder: "/mnt/kids" },
+            movies: { extends: "base", root_folder: "/mnt/movies" },
+            base: { server_id: 2, tags: [1] },
+        }
+        const resolved = resolveInstanceInheritance(instances, defaults)
+        expect(resolved.kids).toEqual({ server_id: 2, quality_profile_id: 1, approve: false, tags: [1], root_folder: "/mnt/kids" })
+        expect(resolved.movies!.root_folder).toBe("/mnt/movies")
+    })
+
+    it("drops inherited settings replaced by their alternative", () => {
+        const instances = { anime: { server_name: "Sonarr", quality_profile: "Anime", root_folder: "/mnt/anime" } }
+        expect(resolveInstanceInheritance(instances, defaults).anime).toEqual({
+            server_name: "Sonarr",
+            quality_profile: "Anime",
+            approve: false,
+            root_folder: "/mnt/anime",
+        })
+    })
+
+    it("leaves instances unchanged without defaults or extends", () => {
+        const instances = { radarr: { server_id: 0, root_folder: "/mnt/movies" } }
+        expect(resolveInstanceInheritance(instances)).toEqual(instances)
+    })
+
+    it("throws for an unknown extended instance", () => {
+        expect(() => resolveInstanceInheritance({ kids: { extends: "missing" } })).toThrow('Instance "kids" extends unknown instance "missing"')
+    })
+
+    it("throws for circular extends", () => {
+        const instances = { a: { extends: "b" }, b: { extends: "c" }, c: { extends: "a" }, d: { extends: "a" } }
+        expect(() => resolveInstanceInheritance(instances)).toThrow('Instance "a" has circular extends: a -> b -> c -> a')
+        expect(() => resolveInstanceInheritance({ a: { extends: "a" } })).toThrow("a -> a")
+    })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "bun:test"
+import { getIgnoreReason, decideRequest } from "./src/services/notification"
+
+describe("getIgnoreReason", () => {
+    it("handles test notifications and configured notification types", () => {
+        expect(getIgnoreReason("TEST_NOTIFICATION", ["MEDIA_PENDING"])).toBe(null)
+        expect(getIgnoreReason("MEDIA_PENDING", ["MEDIA_PENDING"])).toBe(null)
+        expect(getIgnoreReason("MEDIA_AUTO_APPROVED", ["MEDIA_PENDING", "MEDIA_AUTO_APPROVED"])).toBe(null)
+    })
+
+    it("ignores request notifications not in notification_types", () => {
+        expect(getIgnoreReason("MEDIA_AUTO_APPROVED", ["MEDIA_PENDING"])).toBe("Ignored MEDIA_AUTO_APPROVED notification (not in notification_types)")
+        expect(getIgnoreReason("MEDIA_PENDING", ["MEDIA_AUTO_APPROVED"])).toBe("Ignored MEDIA_PENDING notification (not in notification_types)")
+    })
+
+    it("ignores status and issue notifications", () => {
+        expect(getIgnoreReason("MEDIA_AVAILABLE", ["MEDIA_PENDING"])).toBe("Ignored MEDIA_AVAILABLE notification")
+        expect(getIgnoreReason("ISSUE_CREATED", ["MEDIA_PENDING"])).toBe("Ignored ISSUE_CREATED notification")
+    })
+
+    it("ignores unknown and missing notification types", () => {
+        expect(getIgnoreReason("SOMETHING_NEW", ["MEDIA_PENDING"])).toBe('Ignored unknown notification type "SOMETHING_NEW"')
+        expect(getIgnoreReason(undefined, ["MEDIA_PENDING"])).toBe("Ignored unknown notification type null")
+    })
+})
+
+describe("decideRequest", () => {
+    describe("pending requests", () => {
+        it("follows the action of the first matching filter", () => {
+            expect(decideRequest("MEDIA_PENDING", "decline", false, true)).toEqual({ action: "decline", approve: true })
+            expect(decideRequest("MEDIA_PENDING", "hold", true, true)).toEqual({ action: "hold", approve: true })
+            expect(decideRequest("MEDIA_PENDING", "approve", true, false)).toEqual({ action: "approve", approve: true })
+        })
+
+        it("routes requests matching a routing filter", () => {
+            expect(decideRequest("MEDIA_PENDING", undefined, true, false)).toEqual({ action: "route", approve: true })
+            expect(decideRequest("MEDIA_PENDING", "route", true, false)).toEqual({ action: "route", approve: true })
+        })
+
+        it("approves unmatched requests only with approve_on_no_match", () => {
+            expect(decideRequest("MEDIA_PENDING", undefined, false, true)).toEqual({ action: "approve", approve: true })
+            expect(decideRequest("MEDIA_PENDING", undefined, false, false)).toEqual({ action: "none", approve: true })
+        })
+    })
+
+    describe("auto-approved requests", () => {
+        it("re-routes them without approving or counting them towards quotas", () => {
+            expect(decideRequest("MEDIA_AUTO_APPROVED", undefined, true, true)).toEqual({ action: "route", approve: false })
+        })
+
+        it("never declines, holds or approves them", () => {
+            expect(decideRequest("MEDIA_AUTO_APPROVED", "decline", false, true)).toEqual({ action: "none", approve: false })
+            expect(decideRequest("MEDIA_AUTO_APPROVED", "hold", false, true)).toEqual({ action: "none", approve: false })
+            expect(decideRequest("MEDIA_AUTO_APPROVED", "approve", false, true)).toEqual({ action: "none", approve: false })
+        })
+
+        it("still re-routes them when a later routing filter matches", () => {
+            expect(decideRequest("MEDIA_AUTO_APPROVED", "decline", true, true)).toEqual({ action: "route", approve: false })
+            expect(decideRequest("MEDIA_AUTO_APPROVED", "hold", true, false)).toEqual({ action: "route", approve: false })
+        })
+
+        it("leaves unmatched requests unchanged even with approve_on_no_match", () => {
+            expect(decideRequest("MEDIA_AUTO_APPROVED", undefined, false, true)).toEqual({ action: "none", approve: false })
+        })
+    })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "bun:test"
+import { getPoolMembers, hashString, pickPoolInstance } from "./src/services/pool"
+import type { PoolConfig } from "./src/types"
+
+const pool = (strategy: PoolConfig["strategy"], instances: PoolConfig["instances"] = ["a", "b", "c"]): PoolConfig => ({
+    strategy,
+    instances,
+})
+
+describe("getPoolMembers", () => {
+    it("defaults weights to 1", () => {
+        expect(getPoolMembers(pool("weighted", ["a", { instance: "b", weight: 3 }]))).toEqual([
+            { instance: "a", weight: 1 },
+            { instance: "b", weight: 3 },
+        ])
+    })
+})
+
+describe("pickPoolInstance", () => {
+    it("cycles through instances for round_robin", () => {
+        let state
+        const picked: string[] = []
+        for (let i = 0; i < 4; i++) {
+            const result = pickPoolInstance(pool("round_robin"), state, "1")
+            picked.push(result.instance)
+            state = result.state
+        }
+        expect(picked).toEqual(["a", "b", "c", "a"])
+    })
+
+    it("skips unavailable instances for round_robin without shifting the rotation", () => {
+        let state
+        const picked: string[] = []
+        for (const available of [undefined, ["b", "c"], ["a", "c"], undefined]) {
+            const result = pickPoolInstance(pool("round_robin"), state, "1", { available })
+            picked.push(result.instance)
+            state = result.state
+        }
+        expect(picked).toEqual(["a", "b", "c", "a"])
+    })
+
+    it("only picks available instances", () => {
+        expect(pickPoolInstance(pool("hash"), undefined, "603", { available: ["b"] }).instance).toBe("b")
+        expect(pickPoolInstance(pool("least_recently_used"), undefined, "1", { available: ["c"] }).instance).toBe("c")
+    })
+
+    it("picks proportionally to weight for weighted", () => {
+        const weighted = pool("weighted", ["a", { instance: "b", weight: 3 }])
+        expect(pickPoolInstance(weighted, undefined, "1", { random: () => 0.2 }).instance).toBe("a")
+        expect(pickPoolInstance(weighted, undefined, "1", { random: () => 0.3 }).instance).toBe("b")
+        expect(pickPoolInstance(weighted, undefined, "1", { random: () => 0.99 }).instance).toBe("b")
+    })
+
+    it("always picks the same instance for the same key with hash", () => {
+        const first = pickPoolInstance(pool("hash"), undefined, "603").instance
+        for (let i = 0; i < 5; i++) {
+            expect(pickPoolInstance(pool("hash"), { next: i, lastUsed: {} }, "603").instance).toBe(first)
+        }
+        expect(first).toBe(["a", "b", "c"][hashString("603") % 3]!)
+    })
+
+    it("picks the least recently used instance", () => {
+        const state = { next: 0, lastUsed: { a: 300, b: 100, c: 200 } }
+        expect(pickPoolInstance(pool("least_recently_used"), state, "1", { now: 400 }).instance).toBe("b")
+    })
+
+    it("prefers instances that were never used for least_recently_used", () => {
+        const state = { next: 0, lastUsed: { a: 300, b: 100 } }
+        expect(pickPoolInstance(pool("least_recently_used"), state, "1", { now: 400 }).instance).toBe("c")
+    })
+
+    it("picks the instance with the most free space", () => {
+        const freeSpace = { a: 100, b: 300, c: 200 }
+        expect(pickPoolInstance(pool("most_free_space"), undefined, "1", { freeSpace }).instance).toBe("b")
+    })
+
+    it("ranks instances with unknown free space last for most_free_space", () => {
+        const freeSpace = { b: 0 }
+        expect(pickPoolInstance(pool("most_free_space"), undefined, "1", { freeSpace }).instance).toBe("b")
+    })
+
+    it("does not modify the given state", () => {
+        const state = { next: 1, lastUsed: { a: 100 } }
+        const result = pickPoolInstance(pool("round_robin"), state, "1", { now: 500 })
+        expect(state).toEqual({ next: 1, lastUsed: { a: 100 } })
+        expect(result.state).toEqual({ next: 2, lastUsed: { a: 100, b: 500 } })
+    })
+})
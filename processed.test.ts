@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test"
+import { createProcessedStore } from "./src/services/processed"
+
+describe("createProcessedStore", () => {
+    let store: ReturnType<typeof createProcessedStore>
+
+    beforeEach(() => {
+        store = createProcessedStore(":memory:")
+    })
+
+    afterEach(() => store.close())
+
+    it("returns undefined for unknown requests", () => {
+        expect(store.get("1")).toBeUndefined()
+    })
+
+    it("records and returns a processed request", () => {
+        const entry = { requestId: "1", decision: "route", targets: ["radarr", "mirror"], outcome: "success" as const, timestamp: 1000 }
+        store.record(entry)
+        expect(store.get("1")).toEqual(entry)
+    })
+
+    it("replaces earlier results for the same request", () => {
+        store.record({ requestId: "1", decision: "error", targets: [], outcome: "failed", timestamp: 1000 })
+        store.record({ requestId: "1", decision: "approve", targets: [], outcome: "success", timestamp: 2000 })
+        expect(store.get("1")).toMatchObject({ decision: "approve", outcome: "success", timestamp: 2000 })
+    })
+
+    it("prunes results recorded before the given time", () => {
+        store.record({ requestId: "1", decision: "hold", targets: [], outcome: "success", timestamp: 1000 })
+        store.record({ requestId: "2", decision: "hold", targets: [], outcome: "success", timestamp: 3000 })
+        expect(store.prune(2000)).toBe(1)
+        expect(store.get("1")).toBeUndefined()
+        expect(store.get("2")).toBeDefined()
+    })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "bun:test"
+import { countQuotaUsage, findExceededQuota, recordQuotaUsage, describeQuota, createQuotaTracker } from "./src/services/quota"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date("2025-06-15T12:00:00Z")
+
+const webhookFor = (username: string, email: string, media_type = "movie"): any => ({
+    notification_type: "MEDIA_PENDING",
+    media: { media_type, tmdbId: "1", status: "PENDING", status4k: "UNKNOWN" },
+    request: { request_id: "1", requestedBy_username: username, requestedBy_email: email },
+    extra: [],
+})
+
+const entry = (username: string, daysAgo: number, media_type = "movie", email = "") => ({
+    username,
+    email,
+    media_type,
+    timestamp: now.getTime() - daysAgo * DAY_MS,
+})
+
+const userGroups = { family: ["alice", "bob"], guests: ["guest@test.com"] }
+
+describe("countQuotaUsage", () => {
+    it("counts the user's requests within the window", () => {
+        const entries = [entry("alice", 1), entry("alice", 6), entry("alice", 8), entry("bob", 1)]
+        expect(countQuotaUsage({ limit: 10, days: 7 }, entries, webhookFor("alice", ""), {}, now)).toBe(2)
+    })
+
+    it("matches recorded entries by email", () => {
+        const entries = [entry("", 1, "movie", "guest@test.com")]
+        expect(countQuotaUsage({ limit: 10, days: 7 }, entries, webhookFor("guest", "GUEST@test.com"), {}, now)).toBe(1)
+    })
+
+    it("only counts the quota's media type", () => {
+        const entries = [entry("alice", 1, "movie"), entry("alice", 1, "tv")]
+        expect(countQuotaUsage({ media_type: "tv", limit: 10, days: 7 }, entries, webhookFor("alice", "", "tv"), {}, now)).toBe(1)
+    })
+
+    it("shares the count across group members for group scope", () => {
+        const entries = [entry("alice", 1), entry("bob", 2), entry("carol", 1)]
+        const quota = { limit: 10, days: 7, scope: "group" as const, groups: ["family"] }
+        expect(countQuotaUsage(quota, entries, webhookFor("alice", ""), userGroups, now)).toBe(2)
+    })
+})
+
+describe("findExceededQuota", () => {
+    const quotas = [{ name: "weekly", media_type: "movie" as const, limit: 2, days: 7 }]
+
+    it("returns null when within quota", () => {
+        expect(findExceededQuota(quotas, [entry("alice", 1)], webhookFor("alice", ""), {}, now)).toBe(null)
+    })
+
+    it("returns the quota when the limit is reached", () => {
+        const entries = [entry("alice", 1), entry("alice", 2)]
+        expect(findExceededQuota(quotas, entries, webhookFor("alice", ""), {}, now)).toBe(quotas[0]!)
+    })
+
+    it("ignores quotas for other media types", () => {
+        const entries = [entry("alice", 1, "tv"), entry("alice", 2, "tv")]
+        expect(findExceededQuota(quotas, entries, webhookFor("alice", "", "tv"), {}, now)).toBe(null)
+    })
+
+    it("only applies group-restricted quotas to group members", () => {
+        const guestQuota = [{ limit: 0, days: 7, groups: ["guests"] }]
+        expect(findExceededQuota(guestQuota, [], webhookFor("alice", ""), userGroups, now)).toBe(null)
+        expect(findExceededQuota(guestQuota, [], webhookFor("guest", "guest@test.com"), userGroups, now)).toBe(guestQuota[0]!)
+    })
+})
+
+describe("recordQuotaUsage", () => {
+    it("appends the request and prunes entries outside the longest window", () => {
+        const quotas = [{ limit: 10, days: 7 }, { limit: 50, days: 30 }]
+        const entries = recordQuotaUsage(quotas, [entry("alice", 20), entry("alice", 40)], webhookFor("alice", "a@test.com"), now)
+        expect(entries).toEqual([
+            entry("alice", 20),
+            { username: "alice", email: "a@test.com", media_type: "movie", timestamp: now.getTime() },
+        ])
+    })
+})
+
+describe("createQuotaTracker", () => {
+    const quotas = [{ limit: 1, days: 7 }]
+
+    it("lets only one of several concurrent requests through the quota", async () => {
+        const saved: any[] = []
+        const tracker = createQuotaTracker(quotas, {}, { entries: [] }, (state) => saved.push(state))
+
+        // Each request checks the quota, then waits on Overseerr before it would be approved
+        const handle = async () => {
+            const { exceeded } = tracker.reserve(webhookFor("alice", ""), now)
+            await Bun.sleep(5)
+            return exceeded === null
+        }
+        const passed = await Promise.all([handle(), handle(), handle()])
+
+        expect(passed.filter(Boolean)).toHaveLength(1)
+        expect(saved.at(-1).entries).toHaveLength(1)
+    })
+
+    it("frees the reserved usage when released", () => {
+        const saved: any[] = []
+        const tracker = createQuotaTracker(quotas, {}, { entries: [entry("bob", 1)] }, (state) => saved.push(state))
+
+        const { exceeded, release } = tracker.reserve(webhookFor("alice", ""), now)
+        expect(exceeded).toBe(null)
+        release()
+        release()
+
+        expect(saved).toHaveLength(2)
+        expect(saved.at(-1).entries).toEqual([entry("bob", 1)])
+        expect(tracker.reserve(webhookFor("alice", ""), now).exceeded).toBe(null)
+    })
+
+    it("does not reserve usage for requests over the quota", () => {
+        const saved: any[] = []
+        const tracker = createQuotaTracker(quotas, {}, { entries: [entry("alice", 1)] }, (state) => saved.push(state))
+
+        expect(tracker.reserve(webhookFor("alice", ""), now).exceeded).toBe(quotas[0]!)
+        expect(saved).toHaveLength(0)
+    })
+
+    it("does not record usage without quotas", () => {
+        const saved: any[] = []
+        const tracker = createQuotaTracker([], {}, { entries: [] }, (state) => saved.push(state))
+
+        expect(tracker.reserve(webhookFor("alice", ""), now).exceeded).toBe(null)
+        expect(saved).toHaveLength(0)
+    })
+})
+
+describe("describeQuota", () => {
+    it("uses the quota name when set", () => {
+        expect(describeQuota({ name: "weekly", limit: 10, days: 7 })).toBe('"weekly"')
+    })
+
+    it("describes unnamed quotas by their limits", () => {
+        expect(describeQuota({ media_type: "movie", limit: 10, days: 7 })).toBe("10 movies per 7 days")
+    })
+})
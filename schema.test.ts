@@ -0,0 +1,62 @@
+import { describe, it, expect } from "bun:test"
+import { validate } from "./src/config/schema"
+
+const configWith = (conditions: Record<string, unknown>) => ({
+    overseerr_url: "http://overseerr:5055",
+    overseerr_api_token: "token",
+    instances: { radarr: { server_id: 0, root_folder: "/mnt/movies" } },
+    filters: [{ media_type: "movie", conditions, apply: "radarr" }],
+})
+
+describe("condition schema", () => {
+    it("accepts numeric operators on fields", () => {
+        expect(validate(configWith({ runtime: { gt: 120 } }))).toBe(true)
+    })
+
+    it("accepts numeric operators on content ratings, with or without a region", () => {
+        expect(validate(configWith({ contentRatings: { lt: 12 } }))).toBe(true)
+        expect(validate(configWith({ contentRatings: { region: "DE", between: [12, 16] } }))).toBe(true)
+    })
+
+    it("rejects numeric operators on keywords", () => {
+        expect(validate(configWith({ keywords: { lt: 12 } }))).toBe(false)
+        expect(validate.errors?.some((e) => e.instancePath === "/filters/0/conditions/keywords")).toBe(true)
+    })
+
+    it("accepts text conditions on keywords", () => {
+        expect(validate(configWith({ keywords: { exclude: ["anime"] } }))).toBe(true)
+        expect(validate(configWith({ keywords: { regex: "^dc" } }))).toBe(true)
+    })
+})
+
+describe("date conditions", () => {
+    it("accepts valid dates and timestamps", () => {
+        expect(validate(configWith({ releaseDate: { after: "2020-02-29", before: "2024-01-01T12:00:00Z" } }))).toBe(true)
+    })
+
+    it("rejects dates that do not exist", () => {
+        expect(validate(configWith({ releaseDate: { before: "2020-13-45" } }))).toBe(false)
+        expect(validate.errors?.some((e) => e.message === 'invalid date "2020-13-45", use YYYY-MM-DD')).toBe(true)
+        expect(validate(configWith({ releaseDate: { after: "2021-02-29" } }))).toBe(false)
+    })
+
+    it("rejects date operators on keywords and content ratings", () => {
+        expect(validate(configWith({ keywords: { unreleased: false } }))).toBe(false)
+        expect(validate(configWith({ contentRatings: { after: "2020-01-01" } }))).toBe(false)
+    })
+})
+
+describe("requestedBy_group conditions", () => {
+    it("accepts group names and require/include/exclude", () => {
+        expect(validate(configWith({ requestedBy_group: "family" }))).toBe(true)
+        expect(validate(configWith({ requestedBy_group: ["family", "friends"] }))).toBe(true)
+        expect(validate(configWith({ requestedBy_group: { require: "family", exclude: ["guests"] } }))).toBe(true)
+    })
+
+    it("rejects regex, numeric and date conditions", () => {
+        for (const condition of [{ regex: "^fam" }, { gt: 1 }, { before: "2020-01-01" }, 5]) {
+            expect(validate(configWith({ requestedBy_group: condition }))).toBe(false)
+            expect(validate.errors?.some((e) => e.instancePath === "/filters/0/conditions/requestedBy_group")).toBe(true)
+        }
+    })
+})
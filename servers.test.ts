@@ -0,0 +1,130 @@
+import { describe, it, expect } from "bun:test"
+import { resolveInstances } from "./src/services/servers"
+
+const responses: Record<string, any> = {
+    "/api/v1/settings/radarr": [
+        { id: 0, name: "Radarr" },
+        { id: 3, name: "Radarr 4K", is4k: true },
+    ],
+    "/api/v1/settings/sonarr": [{ id: 0, name: "Sonarr" }],
+    "/api/v1/service/radarr/0": {
+        profiles: [{ id: 2, name: "HD-1080p" }],
+        rootFolders: [{ id: 1, path: "/mnt/movies" }],
+    },
+    "/api/v1/service/radarr/3": {
+        profiles: [
+            { id: 4, name: "Ultra-HD" },
+            { id: 6, name: "HD-1080p" },
+        ],
+        rootFolders: [{ id: 1, path: "/mnt/movies4k/" }],
+    },
+    "/api/v1/service/sonarr/0": {
+        profiles: [{ id: 1, name: "Any" }],
+        rootFolders: [{ id: 1, path: "/mnt/tv" }],
+    },
+}
+
+const fetcher = async (endpoint: string) => responses[endpoint]
+
+describe("resolveInstances", () => {
+    it("leaves instances without names untouched", async () => {
+        const instances = { radarr: { server_id: 0, root_folder: "/anywhere" } }
+        const failingFetcher = async () => {
+            throw new Error("should not fetch")
+        }
+        expect(await resolveInstances(instances, failingFetcher)).toBe(instances)
+    })
+
+    it("resolves server and quality profile names", async () => {
+        const instances = { radarr4k: { server_name: "radarr 4k", quality_profile: "ultra-hd", root_folder: "/mnt/movies4k" } as any }
+        expect((await resolveInstances(instances, fetcher)).radarr4k).toEqual({
+            server_name: "radarr 4k",
+            quality_profile: "ultra-hd",
+            root_folder: "/mnt/movies4k",
+            server_id: 3,
+            quality_profile_id: 4,
+        })
+    })
+
+    it("accepts subfolders of a root folder", async () => {
+        const instances = { sonarr: { server_name: "Sonarr", root_folder: "/mnt/tv/anime" } as any }
+        expect((await resolveInstances(instances, fetcher)).sonarr!.server_id).toBe(0)
+    })
+
+    it("resolves quality profiles for a server ID", async () => {
+        const instances = { radarr4k: { server_id: 3, quality_profile: "HD-1080p", root_folder: "/mnt/movies4k" } }
+        expect((await resolveInstances(instances, fetcher)).radarr4k!.quality_profile_id).toBe(6)
+    })
+
+    it("throws for an unknown server", async () => {
+        const instances = { radarr: { server_name: "Missing", root_folder: "/mnt/movies" } as any }
+        await expect(resolveInstances(instances, fetcher)).rejects.toThrow('Instance "radarr" references unknown server "Missing"')
+    })
+
+    it("throws for a server ID used by both Radarr and Sonarr without a type", async () => {
+        const instances = { radarr: { server_id: 0, quality_profile: "Any", root_folder: "/mnt/movies" } }
+        await expect(resolveInstances(instances, fetcher)).rejects.toThrow("Set type to radarr or sonarr")
+    })
+
+    it("uses the type to tell servers sharing an ID apart", async () => {
+        const instances = {
+            radarr: { server_id: 0, type: "radarr" as const, quality_profile: "HD-1080p", root_folder: "/mnt/movies" },
+            sonarr: { server_id: 0, type: "sonarr" as const, quality_profile: "Any", root_folder: "/mnt/tv" },
+        }
+        const resolved = await resolveInstances(instances, fetcher)
+        expect(resolved.radarr!.quality_profile_id).toBe(2)
+        expect(resolved.sonarr!.quality_profile_id).toBe(1)
+    })
+
+    it("checks the root folders of instances without names", async () => {
+        const instances = {
+            radarr4k: { server_name: "Radarr 4K", root_folder: "/mnt/movies4k" } as any,
+            sonarr: { server_id: 0, type: "sonarr" as const, root_folder: "/mnt/anime" },
+        }
+        await expect(resolveInstances(instances, fetcher)).rejects.toThrow('Instance "sonarr" root folder "/mnt/anime" does not exist on server "Sonarr"')
+    })
+
+    it("accepts a root folder on either server sharing an ID when there is no type", async () => {
+        const instances = {
+            radarr4k: { server_name: "Radarr 4K", root_folder: "/mnt/movies4k" } as any,
+            radarr: { server_id: 0, root_folder: "/mnt/movies" },
+            sonarr: { server_id: 0, root_folder: "/mnt/tv" },
+        }
+        const resolved = await resolveInstances(instances, fetcher)
+        expect(resolved.radarr!.server_id).toBe(0)
+        expect(resolved.sonarr!.server_id).toBe(0)
+    })
+
+    it("checks templated root folders by the part before the first placeholder", async () => {
+        const instances = {
+            radarr4k: { server_name: "Radarr 4K", root_folder: "/mnt/movies4k/{originalLanguage}" } as any,
+            sonarr: { server_name: "Sonarr", root_folder: "/mnt/{originalLanguage|en}/anime" } as any,
+        }
+        const resolved = await resolveInstances(instances, fetcher)
+        expect(resolved.radarr4k!.server_id).toBe(3)
+        expect(resolved.sonarr!.server_id).toBe(0)
+    })
+
+    it("throws for a templated root folder outside every root folder", async () => {
+        const instances = { sonarr: { server_name: "Sonarr", root_folder: "/data/{originalLanguage}" } as any }
+        await expect(resolveInstances(instances, fetcher)).rejects.toThrow('root folder "/data/{originalLanguage}" does not exist')
+    })
+
+    it("throws for an unknown server ID", async () => {
+        const instances = {
+            radarr4k: { server_name: "Radarr 4K", root_folder: "/mnt/movies4k" } as any,
+            radarr: { server_id: 5, root_folder: "/mnt/movies" },
+        }
+        await expect(resolveInstances(instances, fetcher)).rejects.toThrow('Instance "radarr" references unknown server ID 5')
+    })
+
+    it("throws for an unknown quality profile", async () => {
+        const instances = { radarr4k: { server_name: "Radarr 4K", quality_profile: "SD", root_folder: "/mnt/movies4k" } as any }
+        await expect(resolveInstances(instances, fetcher)).rejects.toThrow('unknown quality profile "SD" on server "Radarr 4K"')
+    })
+
+    it("throws for a root folder that does not exist", async () => {
+        const instances = { radarr4k: { server_name: "Radarr 4K", root_folder: "/mnt/movies" } as any }
+        await expect(resolveInstances(instances, fetcher)).rejects.toThrow('root folder "/mnt/movies" does not exist')
+    })
+})
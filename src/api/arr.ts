@@ -0,0 +1,42 @@
+import type { RootFolder } from "../types"
+
+/**
+ * Fetch the root folders of a Radarr/Sonarr instance
+ */
+export const fetchRootFolders = async (url: string, apiKey: string): Promise<RootFolder[]> => {
+    const response = await fetch(new URL("/api/v3/rootfolder", url), {
+        headers: { "X-Api-Key": apiKey, accept: "application/json" },
+        signal: AbortSignal.timeout(10_000),
+    })
+
+    if (!response.ok) {
+        throw new Error(`could not retrieve root folders from ${url}: ${response.status} ${response.statusText}`)
+    }
+
+    const data: any = await response.json()
+    return Array.isArray(data) ? data : []
+}
+
+const trimSlashes = (path: string): string => path.replace(/[\\/]+$/, "")
+
+/**
+ * Find the root folder containing the given path, picking the most specific match
+ */
+export const findRootFolder = (rootFolders: RootFolder[], path: string): RootFolder | undefined => {
+    const target = trimSlashes(path)
+    let best: RootFolder | undefined
+
+    for (const folder of rootFolders) {
+        const folderPath = trimSlashes(folder.path)
+        const contains = target === folderPath || target.startsWith(`${folderPath}/`) || target.startsWith(`${folderPath}\\`)
+        if (contains && (!best || folderPath.length > trimSlashes(best.path).length)) best = folder
+    }
+
+    return best
+}
+
+/**
+ * Find the free space in bytes of the root folder containing the given path.
+ * Returns undefined if no root folder matches or it does not report free space.
+ */
+export const findFreeSpace = (rootFolders: RootFolder[], path: string): number | undefined => findRootFolder(rootFolders, path)?.freeSpace
@@ -1,5 +1,6 @@
 import { config } from "../config"
 import logger from "../utils/logger"
+import type { OverseerrUser } from "../types"
 
 // Create headers for Overseerr API requests
 const headers = {
@@ -24,6 +25,20 @@ export const fetchFromOverseerr = async (endpoint: string): Promise<any> => {
     return data
 }
 
+/**
+ * Fetch the user who made a request in Overseerr
+ */
+export const fetchRequestUser = async (requestId: string): Promise<OverseerrUser> => {
+    const request = await fetchFromOverseerr(`/api/v1/request/${requestId}`)
+    const userId = request?.requestedBy?.id
+
+    if (userId === undefined) {
+        throw new Error(`request ID ${requestId} has no requesting user`)
+    }
+
+    return fetchFromOverseerr(`/api/v1/user/${userId}`)
+}
+
 /**
  * Approve a request in Overseerr
  */
@@ -43,6 +58,30 @@ export const approveRequest = async (requestId: string): Promise<void> => {
     }
 }
 
+/**
+ * Decline a request in Overseerr
+ */
+export const declineRequest = async (requestId: string, reason?: string): Promise<void> => {
+    try {
+        const url = new URL(`/api/v1/request/${requestId}/decline`, config.overseerr_url)
+        const response = await fetch(url, {
+            method: "POST",
+            headers: headers,
+            body: reason ? JSON.stringify({ reason }) : undefined,
+            signal: AbortSignal.timeout(10_000),
+        })
+
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`)
+        }
+
+        logger.info(`Request ID ${requestId} declined successfully${reason ? ` (reason: ${reason})` : ""}`)
+    } catch (error) {
+        logger.error(`Error declining request: ${error}`)
+        throw error
+    }
+}
+
 /**
  * Apply configuration to a request in Overseerr
  */
@@ -66,3 +105,30 @@ export const applyConfig = async (requestId: string, postData: Record<string, an
         throw error
     }
 }
+
+/**
+ * Create a new request in Overseerr
+ */
+export const createRequest = async (postData: Record<string, any>): Promise<any> => {
+    try {
+        const url = new URL("/api/v1/request", config.overseerr_url)
+        const response = await fetch(url, {
+            method: "POST",
+            headers: headers,
+            body: JSON.stringify(postData),
+            signal: AbortSignal.timeout(10_000),
+        })
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => "")
+            throw new Error(`${response.status} ${response.statusText}${body ? ` - ${body}` : ""}`)
+        }
+
+        const data: any = await response.json()
+        logger.info(`Request ID ${data?.id} created successfully`)
+        return data
+    } catch (error) {
+        logger.error(`Error creating request: ${error}`)
+        throw error
+    }
+}
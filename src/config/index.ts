@@ -1,144 +1,55 @@
 import fs from "fs"
+import path from "path"
 import yaml from "js-yaml"
-import Ajv, { type ErrorObject, type Schema } from "ajv"
+import type { ErrorObject } from "ajv"
 import logger from "../utils/logger"
-import type { Config } from "../types"
-
-const ajv = new Ajv({ allErrors: true })
+import { normalizeToArray, isObject } from "../utils/helpers"
+import { describeFilter, normalizeApply } from "../services/filter"
+import { resolveInstances } from "../services/servers"
+import { resolveInstanceInheritance } from "./instances"
+import { validate, validateInstances } from "./schema"
+import { isValidIpRange } from "../services/auth"
+import type { Config, Condition, FilterCondition } from "../types"
 
 const yamlFilePath = process.argv[3] || "./config.yaml"
 
-const schema: Schema = {
-    $schema: "http://json-schema.org/draft-07/schema#",
-    type: "object",
-    properties: {
-        overseerr_url: {
-            type: "string",
-            minLength: 1,
-        },
-        overseerr_api_token: {
-            type: "string",
-            minLength: 1,
-        },
-        approve_on_no_match: {
-            type: "boolean",
-        },
-        instances: {
-            type: "object",
-            patternProperties: {
-                ".*": {
-                    type: "object",
-                    properties: {
-                        server_id: {
-                            type: "integer",
-                            minimum: 0,
-                        },
-                        root_folder: {
-                            type: "string",
-                            minLength: 1,
-                        },
-                        quality_profile_id: {
-                            type: "integer",
-                            minimum: 0,
-                        },
-                        approve: {
-                            type: "boolean",
-                        },
-                    },
-                    required: ["server_id", "root_folder"],
-                },
-            },
-            additionalProperties: false,
-        },
-        filters: {
-            type: "array",
-            items: {
-                type: "object",
-                properties: {
-                    media_type: {
-                        type: "string",
-                        enum: ["movie", "tv"],
-                    },
-                    is_4k: {
-                        type: "boolean",
-                    },
-                    conditions: {
-                        type: "object",
-                        additionalProperties: {
-                            anyOf: [
-                                { type: "string" },
-                                { type: "number" },
-                                {
-                                    type: "array",
-                                    items: { type: "string" },
-                                    minItems: 1,
-                                },
-                                {
-                                    type: "object",
-                                    properties: {
-                                        exclude: {
-                                            anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
-                                        },
-                                    },
-                                    required: ["exclude"],
-                                    additionalProperties: false,
-                                },
-                                {
-                                    type: "object",
-                                    properties: {
-                                        require: {
-                                            anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
-                                        },
-                                    },
-                                    required: ["require"],
-                                    additionalProperties: false,
-                                },
-                                {
-                                    type: "object",
-                                    properties: {
-                                        include: {
-                                            anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
-                                        },
-                                    },
-                                    required: ["include"],
-                                    additionalProperties: false,
-                                },
-                            ],
-                        },
-                    },
-                    apply: {
-                        anyOf: [
-                            { type: "string" },
-                            {
-                                type: "array",
-                                items: { type: "string" },
-                                minItems: 1,
-                            },
-                        ],
-                    },
-                },
-                required: ["media_type", "apply"],
-            },
-        },
-    },
-    required: ["overseerr_url", "overseerr_api_token", "instances", "filters"],
-}
+// Keep YAML timestamps (e.g. `before: 2020-01-01`) as plain strings instead of Date objects
+const timestampAsString = new yaml.Type("tag:yaml.org,2002:timestamp", {
+    kind: "scalar",
+    resolve: (data: string) => /^\d{4}-\d{2}-\d{2}/.test(data),
+    construct: (data: string) => data,
+})
+const yamlSchema = yaml.DEFAULT_SCHEMA.extend({ implicit: [timestampAsString] })
 
 /**
  * Format validation errors into a readable string
  */
-const formatErrors = (errors: ErrorObject[] | null | undefined): string => {
+const formatErrors = (errors: ErrorObject[] | null | undefined, prefix = ""): string => {
     if (!errors) return "Unknown validation error"
 
     return errors
         .map((error) => {
-            const path = error.instancePath || "config"
+            const path = prefix + error.instancePath || "config"
             return `Error at "${path}": ${error.message || "Validation issue"}`
         })
         .join("\n")
 }
 
-const validate = ajv.compile<Config>(schema)
+/**
+ * Collect every value configured for a condition key, including inside nested condition groups
+ */
+const collectConditionValues = (conditions: FilterCondition | undefined, key: string): Condition[] => {
+    if (!conditions) return []
+
+    const values: Condition[] = []
+    if (conditions[key] !== undefined) values.push(conditions[key] as Condition)
+
+    for (const group of [...(conditions.any_of ?? []), ...(conditions.all_of ?? []), conditions.not]) {
+        values.push(...collectConditionValues(group, key))
+    }
+
+    return values
+}
 
 /**
  * Load and validate the configuration file
@@ -151,7 +62,7 @@ const loadConfig = async (): Promise<Config> => {
         }
 
         const fileContents = fs.readFileSync(yamlFilePath, "utf8")
-        const config = yaml.load(fileContents)
+        const config = yaml.load(fileContents, { schema: yamlSchema })
 
         if (!validate(config)) {
             throw new Error(`\n${formatErrors(validate.errors)}`)
@@ -162,22 +73,134 @@ const loadConfig = async (): Promise<Config> => {
             config.approve_on_no_match = true
         }
 
-        // Validate that filter apply targets reference defined instances
+        // Store state next to the config file by default
+        if (config.data_dir === undefined) {
+            config.data_dir = path.dirname(yamlFilePath)
+        }
+
+        // Only route pending requests by default
+        if (config.notification_types === undefined) {
+            config.notification_types = ["MEDIA_PENDING"]
+        }
+
+        // Keep processed requests for 30 days by default
+        if (config.processed_retention_days === undefined) {
+            config.processed_retention_days = 30
+        }
+
+        // Used for root folder placeholders whose field is missing
+        if (config.root_folder_fallback === undefined) {
+            config.root_folder_fallback = "Unknown"
+        }
+
+        // Validate that filter names are unique
+        const filterNames = new Set<string>()
+        for (const filter of config.filters) {
+            if (filter.name === undefined) continue
+            if (filterNames.has(filter.name)) {
+                throw new Error(`Duplicate filter name "${filter.name}". Filter names must be unique`)
+            }
+            filterNames.add(filter.name)
+        }
+
+        // Validate the webhook IP allowlist
+        for (const entry of config.webhook_allowed_ips ?? []) {
+            if (!isValidIpRange(entry)) {
+                throw new Error(`Invalid webhook_allowed_ips entry "${entry}". Use an IP address or IPv4 CIDR range`)
+            }
+        }
+
+        // Apply defaults and extends, then check the resolved instances
+        config.instances = resolveInstanceInheritance(config.instances, config.defaults)
+        if (!validateInstances(config.instances)) {
+            throw new Error(`\n${formatErrors(validateInstances.errors, "/instances")}`)
+        }
+
+        // Validate that pools reference defined instances and do not shadow them
         const instanceNames = new Set(Object.keys(config.instances))
+        for (const [poolName, pool] of Object.entries(config.pools ?? {})) {
+            if (instanceNames.has(poolName)) {
+                throw new Error(`Pool "${poolName}" has the same name as an instance`)
+            }
+            for (const member of pool.instances) {
+                const name = typeof member === "string" ? member : member.instance
+                if (!instanceNames.has(name)) {
+                    throw new Error(`Pool "${poolName}" references unknown instance "${name}". Available instances: ${[...instanceNames].join(", ")}`)
+                }
+            }
+        }
+
+        // Validate that filter apply targets reference defined instances or pools
+        const targetNames = new Set([...instanceNames, ...Object.keys(config.pools ?? {})])
         for (const filter of config.filters) {
+            if (filter.apply === undefined) continue
             const targets = Array.isArray(filter.apply) ? filter.apply : [filter.apply]
-            for (const target of targets) {
-                if (!instanceNames.has(target)) {
-                    throw new Error(`Filter references unknown instance "${target}". Available instances: ${[...instanceNames].join(", ")}`)
+            for (const target of targets.map((t) => (typeof t === "string" ? t : t.instance))) {
+                if (!targetNames.has(target)) {
+                    throw new Error(`Filter ${describeFilter(filter, config.filters)} references unknown instance or pool "${target}". Available targets: ${[...targetNames].join(", ")}`)
+                }
+            }
+        }
+
+        // Validate that fallbacks reference defined instances
+        for (const [name, instance] of Object.entries(config.instances)) {
+            for (const fallback of normalizeApply(instance.fallback)) {
+                if (!instanceNames.has(fallback)) {
+                    throw new Error(`Instance "${name}" has unknown fallback instance "${fallback}". Available instances: ${[...instanceNames].join(", ")}`)
+                }
+            }
+        }
+        for (const filter of config.filters) {
+            for (const fallback of normalizeApply(filter.fallback)) {
+                if (!instanceNames.has(fallback)) {
+                    throw new Error(`Filter ${describeFilter(filter, config.filters)} has unknown fallback instance "${fallback}". Available instances: ${[...instanceNames].join(", ")}`)
                 }
             }
         }
 
+        // Validate that requestedBy_group conditions reference defined user groups
+        const groupNames = new Set(Object.keys(config.user_groups ?? {}).map((name) => name.toLowerCase()))
+        for (const filter of config.filters) {
+            for (const value of collectConditionValues(filter.conditions, "requestedBy_group")) {
+                const referenced = isObject(value)
+                    ? Object.values(value).flatMap((v) => normalizeToArray(v))
+                    : normalizeToArray(value)
+                for (const group of referenced) {
+                    if (!groupNames.has(group)) {
+                        throw new Error(`Filter ${describeFilter(filter, config.filters)} references unknown user group "${group}". Available groups: ${[...groupNames].join(", ")}`)
+                    }
+                }
+            }
+        }
+
+        // Validate that quotas reference defined user groups
+        for (const quota of config.quotas ?? []) {
+            for (const group of quota.groups ?? []) {
+                if (!groupNames.has(group.toLowerCase())) {
+                    throw new Error(`Quota references unknown user group "${group}". Available groups: ${[...groupNames].join(", ")}`)
+                }
+            }
+        }
+
+        // Resolve server and quality profile names to Overseerr IDs
+        config.instances = await resolveInstances(config.instances, async (endpoint) => {
+            const response = await fetch(new URL(endpoint, config.overseerr_url), {
+                headers: { "X-Api-Key": config.overseerr_api_token, accept: "application/json" },
+                signal: AbortSignal.timeout(10_000),
+            }).catch((error) => {
+                throw new Error(`Could not retrieve ${endpoint} from Overseerr: ${error.message}`)
+            })
+            if (!response.ok) {
+                throw new Error(`Could not retrieve ${endpoint} from Overseerr: ${response.status} ${response.statusText}`)
+            }
+            return response.json()
+        })
+
         if (logger.isDebugEnabled()) {
             logger.debug("Debug mode enabled")
 
             const replacer = (key: string, value: any) => {
-                if (key === "overseerr_api_token") return "REDACTED"
+                if (["overseerr_api_token", "api_key", "webhook_secret", "webhook_hmac_secret"].includes(key)) return "REDACTED"
                 return value
             }
 
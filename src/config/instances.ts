@@ -0,0 +1,52 @@
+import type { InstanceConfig } from "../types"
+
+// Settings that replace each other, so inheriting one must not keep the other
+const exclusiveSettings: [keyof InstanceConfig, keyof InstanceConfig][] = [
+    ["server_id", "server_name"],
+    ["quality_profile_id", "quality_profile"],
+]
+
+/**
+ * Merges inherited settings with an instance's own settings.
+ * An instance setting one of a pair of exclusive settings drops the inherited other.
+ */
+const mergeSettings = (inherited: Partial<InstanceConfig>, own: Partial<InstanceConfig>): Partial<InstanceConfig> => {
+    const merged = { ...inherited, ...own }
+    for (const [a, b] of exclusiveSettings) {
+        if (own[a] !== undefined && own[b] === undefined) delete merged[b]
+        if (own[b] !== undefined && own[a] === undefined) delete merged[a]
+    }
+    return merged
+}
+
+/**
+ * Applies `defaults` and `extends` to every instance, so each instance holds its full settings.
+ * Instances inherit from the instance they extend, which itself inherits from `defaults`.
+ * Throws for unknown or circular `extends`.
+ */
+export const resolveInstanceInheritance = (
+    instances: Record<string, Partial<InstanceConfig>>,
+    defaults: Partial<InstanceConfig> = {}
+): Record<string, InstanceConfig> => {
+    const resolved: Record<string, Partial<InstanceConfig>> = {}
+
+    const resolve = (name: string, chain: string[]): Partial<InstanceConfig> => {
+        if (resolved[name]) return resolved[name]
+
+        if (chain.includes(name)) {
+            throw new Error(`Instance "${name}" has circular extends: ${[...chain.slice(chain.indexOf(name)), name].join(" -> ")}`)
+        }
+
+        const { extends: parentName, ...own } = instances[name]!
+        if (parentName !== undefined && !instances[parentName]) {
+            throw new Error(`Instance "${name}" extends unknown instance "${parentName}". Available instances: ${Object.keys(instances).join(", ")}`)
+        }
+
+        const inherited = parentName === undefined ? defaults : resolve(parentName, [...chain, name])
+        return (resolved[name] = mergeSettings(inherited, own))
+    }
+
+    for (const name of Object.keys(instances)) resolve(name, [])
+
+    return resolved as Record<string, InstanceConfig>
+}
@@ -0,0 +1,588 @@
+import Ajv, { type Schema, type SchemaValidateFunction } from "ajv"
+import { toRegExp } from "../utils/helpers"
+import type { Config } from "../types"
+
+const ajv = new Ajv({ allErrors: true })
+
+/**
+ * Compile regex condition patterns once at load time, rejecting invalid ones
+ */
+const validateRegexPattern: SchemaValidateFunction = (_schema: boolean, data: string): boolean => {
+    try {
+        toRegExp(data)
+        return true
+    } catch (error) {
+        validateRegexPattern.errors = [
+            { keyword: "regexPattern", message: (error as Error).message, params: {} },
+        ]
+        return false
+    }
+}
+
+ajv.addKeyword({ keyword: "regexPattern", type: "string", schemaType: "boolean", errors: true, validate: validateRegexPattern })
+
+/**
+ * Reject timezones the runtime does not know about
+ */
+const validateTimeZone: SchemaValidateFunction = (_schema: boolean, data: string): boolean => {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: data })
+        return true
+    } catch {
+        validateTimeZone.errors = [{ keyword: "timeZone", message: `unknown timezone "${data}"`, params: {} }]
+        return false
+    }
+}
+
+ajv.addKeyword({ keyword: "timeZone", type: "string", schemaType: "boolean", errors: true, validate: validateTimeZone })
+
+/**
+ * Reject dates that do not parse or do not exist, like 2020-13-45 or 2020-02-30
+ */
+const validateDate: SchemaValidateFunction = (_schema: boolean, data: string): boolean => {
+    const [, year, month, day] = /^(\d{4})-(\d{2})-(\d{2})/.exec(data) ?? []
+    const calendarDate = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+
+    if (
+        year === undefined ||
+        Number.isNaN(new Date(data).getTime()) ||
+        calendarDate.getUTCMonth() !== Number(month) - 1 ||
+        calendarDate.getUTCDate() !== Number(day)
+    ) {
+        validateDate.errors = [{ keyword: "date", message: `invalid date "${data}", use YYYY-MM-DD`, params: {} }]
+        return false
+    }
+    return true
+}
+
+ajv.addKeyword({ keyword: "date", type: "string", schemaType: "boolean", errors: true, validate: validateDate })
+
+const schema: Schema = {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    properties: {
+        overseerr_url: {
+            type: "string",
+            minLength: 1,
+        },
+        overseerr_api_token: {
+            type: "string",
+            minLength: 1,
+        },
+        approve_on_no_match: {
+            type: "boolean",
+        },
+        match_mode: {
+            type: "string",
+            enum: ["first", "all"],
+        },
+        split_seasons: {
+            type: "boolean",
+        },
+        user_groups: {
+            type: "object",
+            patternProperties: {
+                ".*": {
+                    type: "array",
+                    items: { type: "string", minLength: 1 },
+                    minItems: 1,
+                },
+            },
+        },
+        quotas: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    name: { type: "string", minLength: 1 },
+                    media_type: { type: "string", enum: ["movie", "tv"] },
+                    limit: { type: "integer", minimum: 0 },
+                    days: { type: "number", exclusiveMinimum: 0 },
+                    scope: { type: "string", enum: ["user", "group"] },
+                    groups: { type: "array", items: { type: "string" }, minItems: 1 },
+                    action: { type: "string", enum: ["hold", "decline"] },
+                    reason: { type: "string" },
+                },
+                required: ["limit", "days"],
+                additionalProperties: false,
+                // Group-scoped quotas need the groups whose members share the count
+                if: { properties: { scope: { const: "group" } }, required: ["scope"] },
+                then: { required: ["groups"] },
+            },
+        },
+        data_dir: {
+            type: "string",
+            minLength: 1,
+        },
+        timezone: {
+            type: "string",
+            timeZone: true,
+        },
+        root_folder_fallback: {
+            type: "string",
+            minLength: 1,
+        },
+        webhook_secret: {
+            type: "string",
+            minLength: 1,
+        },
+        webhook_hmac_secret: {
+            type: "string",
+            minLength: 1,
+        },
+        webhook_allowed_ips: {
+            type: "array",
+            items: { type: "string" },
+        },
+        notification_types: {
+            type: "array",
+            items: { type: "string", enum: ["MEDIA_PENDING", "MEDIA_AUTO_APPROVED"] },
+            minItems: 1,
+            uniqueItems: true,
+        },
+        processed_retention_days: {
+            type: "number",
+            exclusiveMinimum: 0,
+        },
+        defaults: {
+            allOf: [{ $ref: "#/definitions/instance" }, { not: { type: "object", required: ["extends"] } }],
+        },
+        instances: {
+            type: "object",
+            patternProperties: {
+                ".*": { $ref: "#/definitions/instance" },
+            },
+            additionalProperties: false,
+        },
+        pools: {
+            type: "object",
+            patternProperties: {
+                ".*": {
+                    type: "object",
+                    properties: {
+                        strategy: {
+                            type: "string",
+                            enum: ["round_robin", "weighted", "hash", "least_recently_used", "most_free_space"],
+                        },
+                        instances: {
+                            type: "array",
+                            items: {
+                                anyOf: [
+                                    { type: "string" },
+                                    {
+                                        type: "object",
+                                        properties: {
+                                            instance: { type: "string" },
+                                            weight: { type: "number", exclusiveMinimum: 0 },
+                                        },
+                                        required: ["instance"],
+                                        additionalProperties: false,
+                                    },
+                                ],
+                            },
+                            minItems: 1,
+                        },
+                    },
+                    required: ["strategy", "instances"],
+                    additionalProperties: false,
+                },
+            },
+        },
+        filters: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    name: {
+                        type: "string",
+                        minLength: 1,
+                    },
+                    priority: {
+                        type: "number",
+                    },
+                    media_type: {
+                        type: "string",
+                        enum: ["movie", "tv"],
+                    },
+                    is_4k: {
+                        type: "boolean",
+                    },
+                    conditions: { $ref: "#/definitions/conditions" },
+                    seasons: {
+                        anyOf: [
+                            { type: "integer", minimum: 0 },
+                            { type: "array", items: { type: "integer", minimum: 0 }, minItems: 1 },
+                            {
+                                type: "object",
+                                properties: {
+                                    gt: { type: "number" },
+                                    gte: { type: "number" },
+                                    lt: { type: "number" },
+                                    lte: { type: "number" },
+                                    between: {
+                                        type: "array",
+                                        items: { type: "number" },
+                                        minItems: 2,
+                                        maxItems: 2,
+                                    },
+                                },
+                                minProperties: 1,
+                                additionalProperties: false,
+                            },
+                        ],
+                    },
+                    action: {
+                        type: "string",
+                        enum: ["route", "decline", "hold", "approve"],
+                    },
+                    reason: {
+                        type: "string",
+                    },
+                    continue: {
+                        type: "boolean",
+                    },
+                    apply: {
+                        anyOf: [
+                            { $ref: "#/definitions/target" },
+                            {
+                                type: "array",
+                                items: { $ref: "#/definitions/target" },
+                                minItems: 1,
+                            },
+                        ],
+                    },
+                    fallback: {
+                        anyOf: [
+                            { type: "string" },
+                            {
+                                type: "array",
+                                items: { type: "string" },
+                                minItems: 1,
+                            },
+                        ],
+                    },
+                    language_profile_id: {
+                        type: "integer",
+                        minimum: 0,
+                    },
+                    tags: {
+                        type: "array",
+                        items: { type: "integer", minimum: 0 },
+                    },
+                },
+                required: ["media_type"],
+                // Only routing filters need apply targets
+                if: {
+                    properties: { action: { enum: ["decline", "hold", "approve"] } },
+                    required: ["action"],
+                },
+                else: { required: ["apply"] },
+            },
+        },
+    },
+    definitions: {
+        // Required settings are checked once defaults and extends are applied
+        instance: {
+            type: "object",
+            properties: {
+                server_id: {
+                    type: "integer",
+                    minimum: 0,
+                },
+                server_name: {
+                    type: "string",
+                    minLength: 1,
+                },
+                type: {
+                    type: "string",
+                    enum: ["radarr", "sonarr"],
+                },
+                root_folder: {
+                    type: "string",
+                    minLength: 1,
+                },
+                quality_profile_id: {
+                    type: "integer",
+                    minimum: 0,
+                },
+                quality_profile: {
+                    type: "string",
+                    minLength: 1,
+                },
+                language_profile_id: {
+                    type: "integer",
+                    minimum: 0,
+                },
+                tags: {
+                    type: "array",
+                    items: { type: "integer", minimum: 0 },
+                },
+                approve: {
+                    type: "boolean",
+                },
+                url: {
+                    type: "string",
+                    minLength: 1,
+                },
+                api_key: {
+                    type: "string",
+                    minLength: 1,
+                },
+                min_free_space_gb: {
+                    type: "number",
+                    minimum: 0,
+                },
+                fallback: {
+                    anyOf: [
+                        { type: "string" },
+                        {
+                            type: "array",
+                            items: { type: "string" },
+                            minItems: 1,
+                        },
+                    ],
+                },
+                extends: {
+                    type: "string",
+                    minLength: 1,
+                },
+            },
+        },
+        target: {
+            anyOf: [
+                { type: "string" },
+                {
+                    type: "object",
+                    properties: {
+                        instance: { type: "string" },
+                        root_folder: { type: "string", minLength: 1 },
+                        quality_profile_id: { type: "integer", minimum: 0 },
+                        approve: { type: "boolean" },
+                        language_profile_id: { type: "integer", minimum: 0 },
+                        tags: {
+                            type: "array",
+                            items: { type: "integer", minimum: 0 },
+                        },
+                    },
+                    required: ["instance"],
+                    additionalProperties: false,
+                },
+            ],
+        },
+        conditions: {
+            type: "object",
+            properties: {
+                any_of: {
+                    type: "array",
+                    items: { $ref: "#/definitions/conditions" },
+                    minItems: 1,
+                },
+                all_of: {
+                    type: "array",
+                    items: { $ref: "#/definitions/conditions" },
+                    minItems: 1,
+                },
+                not: { $ref: "#/definitions/conditions" },
+                schedule: {
+                    anyOf: [
+                        { $ref: "#/definitions/schedule" },
+                        { type: "array", items: { $ref: "#/definitions/schedule" }, minItems: 1 },
+                    ],
+                },
+                // Group names are matched exactly, so patterns, numbers and dates do not apply
+                requestedBy_group: {
+                    anyOf: [
+                        { type: "string", minLength: 1 },
+                        { type: "array", items: { type: "string", minLength: 1 }, minItems: 1 },
+                        {
+                            type: "object",
+                            properties: {
+                                require: { anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }] },
+                                include: { anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }] },
+                                exclude: { anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }] },
+                            },
+                            minProperties: 1,
+                            additionalProperties: false,
+                        },
+                    ],
+                },
+                // Keywords are names, so they only take text conditions
+                keywords: { $ref: "#/definitions/textCondition" },
+                contentRatings: {
+                    anyOf: [
+                        { $ref: "#/definitions/textCondition" },
+                        { $ref: "#/definitions/numericCondition" },
+                        {
+                            type: "object",
+                            properties: {
+                                region: {
+                                    anyOf: [{ type: "string" }, { type: "array", items: { type: "string" }, minItems: 1 }],
+                                },
+                                require: {
+                                    anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                                },
+                                include: {
+                                    anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                                },
+                                exclude: {
+                                    anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                                },
+                                regex: {
+                                    anyOf: [
+                                        { type: "string", regexPattern: true },
+                                        { type: "array", items: { type: "string", regexPattern: true }, minItems: 1 },
+                                    ],
+                                },
+                                gt: { type: "number" },
+                                gte: { type: "number" },
+                                lt: { type: "number" },
+                                lte: { type: "number" },
+                                between: {
+                                    type: "array",
+                                    items: { type: "number" },
+                                    minItems: 2,
+                                    maxItems: 2,
+                                },
+                            },
+                            required: ["region"],
+                            additionalProperties: false,
+                        },
+                    ],
+                },
+            },
+            additionalProperties: { $ref: "#/definitions/condition" },
+        },
+        schedule: {
+            type: "object",
+            properties: {
+                days: {
+                    type: "array",
+                    items: {
+                        type: "string",
+                        enum: [
+                            ...["mon", "tue", "wed", "thu", "fri", "sat", "sun"],
+                            ...["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"],
+                        ],
+                    },
+                    minItems: 1,
+                },
+                start: { type: "string", pattern: "^([01]\\d|2[0-3]):[0-5]\\d$" },
+                end: { type: "string", pattern: "^([01]\\d|2[0-3]):[0-5]\\d$" },
+                timezone: { type: "string", timeZone: true },
+            },
+            minProperties: 1,
+            additionalProperties: false,
+        },
+        // Conditions on any field, by value, number or date
+        condition: {
+            anyOf: [
+                { $ref: "#/definitions/textCondition" },
+                { $ref: "#/definitions/numericCondition" },
+                { $ref: "#/definitions/dateCondition" },
+            ],
+        },
+        textCondition: {
+            anyOf: [
+                { type: "string" },
+                { type: "number" },
+                {
+                    type: "array",
+                    items: { type: "string" },
+                    minItems: 1,
+                },
+                {
+                    type: "object",
+                    properties: {
+                        exclude: {
+                            anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                        },
+                    },
+                    required: ["exclude"],
+                    additionalProperties: false,
+                },
+                {
+                    type: "object",
+                    properties: {
+                        require: {
+                            anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                        },
+                    },
+                    required: ["require"],
+                    additionalProperties: false,
+                },
+                {
+                    type: "object",
+                    properties: {
+                        include: {
+                            anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                        },
+                    },
+                    required: ["include"],
+                    additionalProperties: false,
+                },
+                {
+                    type: "object",
+                    properties: {
+                        regex: {
+                            anyOf: [
+                                { type: "string", regexPattern: true },
+                                { type: "array", items: { type: "string", regexPattern: true }, minItems: 1 },
+                            ],
+                        },
+                    },
+                    required: ["regex"],
+                    additionalProperties: false,
+                },
+            ],
+        },
+        numericCondition: {
+            type: "object",
+            properties: {
+                gt: { type: "number" },
+                gte: { type: "number" },
+                lt: { type: "number" },
+                lte: { type: "number" },
+                between: {
+                    type: "array",
+                    items: { type: "number" },
+                    minItems: 2,
+                    maxItems: 2,
+                },
+            },
+            minProperties: 1,
+            additionalProperties: false,
+        },
+        dateCondition: {
+            type: "object",
+            properties: {
+                before: { type: "string", date: true },
+                after: { type: "string", date: true },
+                within_days: { type: "number", minimum: 0 },
+                older_than_years: { type: "number", minimum: 0 },
+                unreleased: { type: "boolean" },
+            },
+            minProperties: 1,
+            additionalProperties: false,
+        },
+    },
+    required: ["overseerr_url", "overseerr_api_token", "instances", "filters"],
+}
+
+export const validate = ajv.compile<Config>(schema)
+
+// Checked once defaults and extends are applied, since required settings may be inherited
+export const validateInstances = ajv.compile({
+    type: "object",
+    patternProperties: {
+        ".*": {
+            type: "object",
+            required: ["root_folder"],
+            oneOf: [{ required: ["server_id"] }, { required: ["server_name"] }],
+            not: { required: ["quality_profile_id", "quality_profile"] },
+            dependencies: {
+                url: ["api_key"],
+                api_key: ["url"],
+            },
+        },
+    },
+})
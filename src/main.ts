@@ -1,13 +1,15 @@
 import logger from "./utils/logger"
+import { config } from "./config"
 import { isWebhook } from "./utils/helpers"
-import { handleWebhook, createResponse } from "./services/webhook"
+import { handleWebhook, createResponse, ignoreNotification } from "./services/webhook"
+import { checkWebhookAuth } from "./services/auth"
 
 const PORT = process.env.PORT || 8481
 logger.info(`Redirecterr listening on port ${PORT}`)
 
 Bun.serve({
     port: Number(PORT),
-    async fetch(req: Request): Promise<Response> {
+    async fetch(req, server): Promise<Response> {
         const url = new URL(req.url)
 
         if (req.method !== "POST" || url.pathname !== "/webhook") {
@@ -15,7 +17,21 @@ Bun.serve({
         }
 
         try {
-            const webhook = await req.json()
+            const body = await req.text()
+
+            // Reject webhooks that are not from Overseerr
+            const ip = server.requestIP(req)?.address
+            const failure = checkWebhookAuth(req.headers, body, ip, {
+                secret: config.webhook_secret,
+                hmacSecret: config.webhook_hmac_secret,
+                allowedIps: config.webhook_allowed_ips,
+            })
+            if (failure) return createResponse("error", failure.message, failure.status)
+
+            const webhook = JSON.parse(body)
+
+            const ignored = ignoreNotification(webhook?.notification_type)
+            if (ignored) return ignored
 
             if (!isWebhook(webhook)) {
                 return createResponse(
@@ -26,7 +42,7 @@ Bun.serve({
             }
 
             // Process the webhook
-            return handleWebhook(webhook)
+            return await handleWebhook(webhook)
         } catch (error) {
             return createResponse("error", `Error processing webhook: ${error}`, 500)
         }
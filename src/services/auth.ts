@@ -0,0 +1,101 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto"
+import { isIPv6 } from "node:net"
+
+interface WebhookAuthOptions {
+    secret?: string // Expected Authorization header
+    hmacSecret?: string // Key for the HMAC-SHA256 signature of the body
+    allowedIps?: string[] // IP addresses or IPv4 CIDR ranges
+}
+
+interface WebhookAuthFailure {
+    status: 401 | 403
+    message: string
+}
+
+export const SIGNATURE_HEADER = "X-Signature-256"
+
+/**
+ * Compares two strings in constant time. Both are hashed first so the comparison does not leak their lengths.
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+    const digest = (value: string) => createHash("sha256").update(value).digest()
+    return timingSafeEqual(digest(a), digest(b))
+}
+
+/**
+ * Checks a hex HMAC-SHA256 signature of the body, with or without a "sha256=" prefix
+ */
+export const verifySignature = (body: string, signature: string, secret: string): boolean => {
+    const expected = createHmac("sha256", secret).update(body).digest("hex")
+    return safeEqual(signature.trim().replace(/^sha256=/i, "").toLowerCase(), expected)
+}
+
+const parseIpv4 = (ip: string): number | undefined => {
+    const parts = ip.split(".")
+    if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return undefined
+    return parts.reduce((value, part) => value * 256 + Number(part), 0)
+}
+
+/**
+ * Normalizes an address for comparison. IPv4 clients of a dual-stack server are reported as IPv4-mapped IPv6 addresses,
+ * and IPv6 addresses are compressed so different spellings of one address compare equal.
+ */
+const normalizeIp = (ip: string): string => {
+    const address = ip.trim().toLowerCase().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, "")
+    return isIPv6(address) ? new URL(`http://[${address}]`).hostname.slice(1, -1) : address
+}
+
+/**
+ * Checks whether an allowlist entry is an IP address or IPv4 CIDR range
+ */
+export const isValidIpRange = (entry: string): boolean => {
+    const [address = "", bits, ...rest] = normalizeIp(entry).split("/")
+    if (rest.length) return false
+    if (bits === undefined) return parseIpv4(address) !== undefined || isIPv6(address)
+    return parseIpv4(address) !== undefined && /^\d{1,2}$/.test(bits) && Number(bits) <= 32
+}
+
+/**
+ * Checks whether an IP address matches one of the allowed addresses or IPv4 CIDR ranges
+ */
+export const isIpAllowed = (ip: string, allowedIps: string[]): boolean => {
+    const address = normalizeIp(ip)
+    const value = parseIpv4(address)
+
+    return allowedIps.some((entry) => {
+        const [range = "", bits] = normalizeIp(entry).split("/")
+        if (bits === undefined) return range === address
+
+        const start = parseIpv4(range)
+        if (value === undefined || start === undefined) return false
+        const size = 2 ** (32 - Number(bits))
+        return Math.floor(value / size) === Math.floor(start / size)
+    })
+}
+
+/**
+ * Authenticates a webhook request. Returns the failure to respond with, or null if the request is allowed.
+ */
+export const checkWebhookAuth = (
+    headers: Headers,
+    body: string,
+    ip: string | undefined,
+    { secret, hmacSecret, allowedIps }: WebhookAuthOptions
+): WebhookAuthFailure | null => {
+    if (allowedIps?.length && (!ip || !isIpAllowed(ip, allowedIps))) {
+        return { status: 403, message: `IP address ${ip ?? "unknown"} is not allowed` }
+    }
+
+    if (secret !== undefined && !safeEqual(headers.get("Authorization") ?? "", secret)) {
+        return { status: 401, message: "Invalid or missing Authorization header" }
+    }
+
+    if (hmacSecret !== undefined) {
+        const signature = headers.get(SIGNATURE_HEADER)
+        if (!signature || !verifySignature(body, signature, hmacSecret)) {
+            return { status: 401, message: `Invalid or missing ${SIGNATURE_HEADER} header` }
+        }
+    }
+
+    return null
+}
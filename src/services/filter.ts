@@ -1,6 +1,13 @@
 import logger from "../utils/logger"
-import { normalizeToArray, isObject, isObjectArray, buildDebugLogMessage } from "../utils/helpers"
-import type { Webhook, MediaData, Filter, Condition, Keyword, ContentRatings } from "../types"
+import { normalizeToArray, isObject, isObjectArray, buildDebugLogMessage, toRegExp, resolvePath, getRequestedSeasons } from "../utils/helpers"
+import type { Webhook, MediaData, Filter, FilterCondition, Condition, ConditionValueObject, Keyword, ContentRating, ContentRatings, MatchOptions, SeasonCondition, SeasonGroup, UserGroups, Schedule, PostData, Target } from "../types"
+
+const numericOperators = ["gt", "gte", "lt", "lte", "between"] as const
+const dateOperators = ["before", "after", "within_days", "older_than_years", "unreleased"] as const
+
+const groupKeys = ["any_of", "all_of", "not"]
+
+const DAY_MS = 24 * 60 * 60 * 1000
 
 /**
  * Matches filter values against arbitrary data structures.
@@ -47,7 +54,104 @@ export const matchValue = (filterValue: any, dataValue: any, required = false):
 }
 
 /**
- * Specialized keyword matcher: handles require/include/exclude directly on keyword names.
+ * Regular-expression matcher: passes when any string extracted from the data matches any pattern.
+ */
+export const matchRegex = (patterns: string | string[], dataValue: any): boolean => {
+	const regexes = (Array.isArray(patterns) ? patterns : [patterns]).map(toRegExp)
+
+	const visit = (val: unknown): boolean => {
+		if (isObject(val)) return Object.values(val as Record<PropertyKey, unknown>).some(visit)
+		if (Array.isArray(val)) return val.some(visit)
+		const s = String(val)
+		return regexes.some((re) => re.test(s))
+	}
+
+	return visit(dataValue)
+}
+
+/**
+ * Collects every finite number found in a value (numbers, numeric strings and arrays of them).
+ */
+const extractNumbers = (value: unknown): number[] => {
+	if (Array.isArray(value)) return value.flatMap(extractNumbers)
+	if (typeof value === "number") return Number.isFinite(value) ? [value] : []
+	if (typeof value === "string" && value.trim() !== "") {
+		const n = Number(value)
+		return Number.isFinite(n) ? [n] : []
+	}
+	return []
+}
+
+/**
+ * Checks whether a condition object uses any numeric comparison operator.
+ */
+export const hasNumericOperator = (filterCondition: Condition): filterCondition is ConditionValueObject =>
+	isObject(filterCondition) && numericOperators.some((op) => op in (filterCondition as ConditionValueObject))
+
+/**
+ * Numeric comparison matcher: handles gt/gte/lt/lte/between (inclusive).
+ * Passes when at least one number in the data satisfies every configured bound.
+ */
+export const matchNumeric = (filterCondition: ConditionValueObject, dataValue: any): boolean => {
+	const { gt, gte, lt, lte, between } = filterCondition
+
+	return extractNumbers(dataValue).some((n) => {
+		if (gt !== undefined && !(n > gt)) return false
+		if (gte !== undefined && !(n >= gte)) return false
+		if (lt !== undefined && !(n < lt)) return false
+		if (lte !== undefined && !(n <= lte)) return false
+		if (between !== undefined && !(n >= Math.min(...between) && n <= Math.max(...between))) return false
+		return true
+	})
+}
+
+/**
+ * Collects every valid date found in a value (date strings, timestamps and arrays of them).
+ */
+const extractDates = (value: unknown): Date[] => {
+	if (Array.isArray(value)) return value.flatMap(extractDates)
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? [] : [value]
+	if ((typeof value === "string" && value.trim() !== "") || typeof value === "number") {
+		const date = new Date(value)
+		return Number.isNaN(date.getTime()) ? [] : [date]
+	}
+	return []
+}
+
+/**
+ * Checks whether a condition object uses any date operator.
+ */
+export const hasDateOperator = (filterCondition: Condition): filterCondition is ConditionValueObject =>
+	isObject(filterCondition) && dateOperators.some((op) => op in (filterCondition as ConditionValueObject))
+
+/**
+ * Date matcher: handles before/after (absolute dates), within_days, older_than_years and unreleased
+ * relative to `now`. Passes when at least one date in the data satisfies every configured operator.
+ */
+export const matchDate = (filterCondition: ConditionValueObject, dataValue: any, now = new Date()): boolean => {
+	const { before, after, within_days, older_than_years, unreleased } = filterCondition
+	const beforeDate = before !== undefined ? new Date(before) : null
+	const afterDate = after !== undefined ? new Date(after) : null
+
+	let olderThan: Date | null = null
+	if (older_than_years !== undefined) {
+		olderThan = new Date(now)
+		olderThan.setUTCFullYear(olderThan.getUTCFullYear() - older_than_years)
+	}
+
+	return extractDates(dataValue).some((date) => {
+		const t = date.getTime()
+		if (beforeDate && !(t < beforeDate.getTime())) return false
+		if (afterDate && !(t > afterDate.getTime())) return false
+		if (within_days !== undefined && !(t <= now.getTime() && t >= now.getTime() - within_days * DAY_MS)) return false
+		if (olderThan && !(t <= olderThan.getTime())) return false
+		if (unreleased !== undefined && t > now.getTime() !== unreleased) return false
+		return true
+	})
+}
+
+/**
+ * Specialized keyword matcher: handles require/include/exclude/regex directly on keyword names.
  */
 export const matchKeywords = (keywords: Array<Keyword>, filterCondition: Condition): boolean => {
 	const names = keywords.map((k) => k.name.toLowerCase())
@@ -69,6 +173,10 @@ export const matchKeywords = (keywords: Array<Keyword>, filterCondition: Conditi
 			if (names.some((n) => exc.some((v) => n.includes(v)))) return false
 		}
 
+		if ("regex" in filterCondition && filterCondition.regex) {
+			if (!matchRegex(filterCondition.regex, names)) return false
+		}
+
 		return true
 	}
 
@@ -77,12 +185,117 @@ export const matchKeywords = (keywords: Array<Keyword>, filterCondition: Conditi
 }
 
 /**
- * Specialized content rating matcher: handles require/include/exclude on rating strings.
+ * Returns the names of the user groups the requesting user belongs to, matched exactly on username or email.
+ */
+export const getUserGroups = (webhook: Webhook, userGroups: UserGroups = {}): string[] => {
+	const identities = [webhook.request?.requestedBy_username, webhook.request?.requestedBy_email]
+		.filter((v) => typeof v === "string" && v !== "")
+		.map((v) => v.toLowerCase())
+
+	return Object.entries(userGroups)
+		.filter(([, members]) => members.some((m) => identities.includes(String(m).toLowerCase())))
+		.map(([name]) => name)
+}
+
+/**
+ * Specialized user group matcher: handles require/include/exclude with exact group names.
+ */
+export const matchUserGroups = (groups: string[], filterCondition: Condition): boolean => {
+	const names = groups.map((g) => g.toLowerCase())
+
+	if (typeof filterCondition === "object" && filterCondition !== null && !Array.isArray(filterCondition)) {
+		if ("require" in filterCondition && filterCondition.require) {
+			if (!normalizeToArray(filterCondition.require).every((v) => names.includes(v))) return false
+		}
+
+		if ("include" in filterCondition && filterCondition.include) {
+			if (!normalizeToArray(filterCondition.include).some((v) => names.includes(v))) return false
+		}
+
+		if ("exclude" in filterCondition && filterCondition.exclude) {
+			if (normalizeToArray(filterCondition.exclude).some((v) => names.includes(v))) return false
+		}
+
+		return true
+	}
+
+	return normalizeToArray(filterCondition).some((v) => names.includes(v))
+}
+
+/**
+ * Schedule matcher: checks the weekday and time of day of `now` in the schedule's timezone
+ * (falling back to the configured timezone, then the system timezone).
+ * Time ranges include the start and exclude the end; an end before the start wraps past midnight.
+ */
+export const matchSchedule = (schedule: Schedule, now: Date, timezone?: string): boolean => {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone: schedule.timezone ?? timezone,
+		weekday: "short",
+		hour: "2-digit",
+		minute: "2-digit",
+		hourCycle: "h23",
+	}).formatToParts(now)
+	const part = (type: string) => parts.find((p) => p.type === type)?.value ?? ""
+
+	if (schedule.days && !schedule.days.some((d) => d.slice(0, 3).toLowerCase() === part("weekday").toLowerCase())) return false
+
+	const toMinutes = (time: string): number => {
+		const [h = 0, m = 0] = time.split(":").map(Number)
+		return h * 60 + m
+	}
+	const minutes = toMinutes(`${part("hour")}:${part("minute")}`)
+	const start = schedule.start ? toMinutes(schedule.start) : 0
+	const end = schedule.end ? toMinutes(schedule.end) : 24 * 60
+
+	return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+/**
+ * Collects certifications from both tv (`contentRatings`) and movie (`releases` / `releaseDates`) payloads
+ * into a single list of { iso_3166_1, rating } entries.
+ */
+export const extractCertifications = (data: MediaData): ContentRatings => {
+	const results: ContentRating[] = []
+	const seen = new Set<string>()
+
+	const add = (iso: unknown, rating: unknown): void => {
+		if (typeof rating !== "string" && typeof rating !== "number") return
+		const value = String(rating).trim()
+		if (!value) return
+
+		const region = String(iso ?? "").toUpperCase()
+		const id = `${region}:${value.toLowerCase()}`
+		if (seen.has(id)) return
+		seen.add(id)
+		results.push({ iso_3166_1: region, rating: value })
+	}
+
+	for (const r of data?.contentRatings?.results ?? []) add(r.iso_3166_1, r.rating)
+
+	for (const releases of [data?.releases, data?.releaseDates]) {
+		for (const release of releases?.results ?? []) {
+			for (const date of release.release_dates ?? release.releaseDates ?? []) add(release.iso_3166_1, date.certification)
+		}
+	}
+
+	return { results }
+}
+
+/**
+ * Specialized content rating matcher: handles region scoping, require/include/exclude/regex on rating strings
+ * and numeric operators on numeric ratings.
  */
 export const matchContentRatings = (contentRatings: ContentRatings, filterCondition: Condition): boolean => {
 	if (!contentRatings || !contentRatings.results || contentRatings.results.length === 0) return false
 
-	const ratings: string[] = contentRatings.results.map((r: any) => String(r.rating).toLowerCase())
+	let results = contentRatings.results
+	if (isObject(filterCondition) && (filterCondition as ConditionValueObject).region) {
+		const regions = normalizeToArray((filterCondition as ConditionValueObject).region)
+		results = results.filter((r) => regions.includes(String(r.iso_3166_1).toLowerCase()))
+		if (results.length === 0) return false
+	}
+
+	const ratings: string[] = results.map((r: any) => String(r.rating).toLowerCase())
 
 	if (typeof filterCondition === "object" && filterCondition !== null && !Array.isArray(filterCondition)) {
 		if ("require" in filterCondition && filterCondition.require) {
@@ -101,6 +314,13 @@ export const matchContentRatings = (contentRatings: ContentRatings, filterCondit
 			if (ratings.some((r) => exc.some((v) => r.includes(v)))) return false
 		}
 
+		if ("regex" in filterCondition && filterCondition.regex) {
+			if (!matchRegex(filterCondition.regex, ratings)) return false
+		}
+
+		// Numeric operators compare numeric ratings like "12" or "16"; other ratings never match them
+		if (hasNumericOperator(filterCondition) && !matchNumeric(filterCondition, ratings)) return false
+
 		return true
 	}
 
@@ -109,119 +329,334 @@ export const matchContentRatings = (contentRatings: ContentRatings, filterCondit
 }
 
 /**
- * Finds the first filter that matches this webhook + media data and returns its `apply` target.
- * Prioritizes keys: keywords, contentRatings, max_seasons.
+ * Resolves a condition key (plain or dot-path) against the media data, then the webhook request,
+ * then the whole webhook (e.g. `media.status4k`). `user.*` keys resolve against the requesting user's profile.
  */
-export const findInstances = (webhook: Webhook, data: MediaData, filters: Filter[]): string | string[] | null => {
-	try {
-		const matchingFilter = filters.find(({ media_type, is_4k, conditions }) => {
-			if (media_type !== webhook.media.media_type) return false
-			if (is_4k === false && (webhook.media.status !== "PENDING" || webhook.media.status4k === "PENDING")) return false
-			if (is_4k === true && (webhook.media.status4k !== "PENDING" || webhook.media.status === "PENDING")) return false
-
-			if (!conditions || Object.keys(conditions).length === 0) return true
-
-			const priorityKeys = ["keywords", "contentRatings", "max_seasons"]
-
-			for (const priorityKey of priorityKeys) {
-				if (!(priorityKey in conditions)) continue
-				const value = (conditions as any)[priorityKey]
-
-				if (priorityKey === "keywords") {
-					if (!data.keywords) return false
-					if (!matchKeywords(data.keywords, value as Condition)) return false
-
-					if (logger.isDebugEnabled()) {
-						logger.debug(
-							buildDebugLogMessage("Filter check:", {
-								Field: priorityKey,
-								"Filter value": value,
-								"Request value": "Keywords array (matched)",
-							})
-						)
-					}
-				} else if (priorityKey === "contentRatings") {
-					if (!data.contentRatings) return false
-					if (!matchContentRatings(data.contentRatings, value as Condition)) return false
-
-					if (logger.isDebugEnabled()) {
-						logger.debug(
-							buildDebugLogMessage("Filter check:", {
-								Field: priorityKey,
-								"Filter value": value,
-								"Request value": "Content ratings array (matched)",
-							})
-						)
-					}
-				} else if (priorityKey === "max_seasons") {
-					if (!webhook.extra) return false
-					const requestedSeasons = webhook.extra.find((item: any) => item.name === "Requested Seasons")?.value?.split(",")
-					const max = typeof value === "number" ? value : Number.parseInt(String(value), 10)
-					if (Number.isFinite(max) && requestedSeasons && requestedSeasons.length > max) return false
-				}
+export const resolveField = (key: string, webhook: Webhook, data: MediaData, options: MatchOptions = {}): unknown => {
+	if (key.startsWith("user.")) return resolvePath(options.user, key.slice("user.".length))
+
+	return resolvePath(data, key) ?? resolvePath(webhook.request, key) ?? resolvePath(webhook, key)
+}
+
+/**
+ * Lists every condition key used in a conditions object, including inside nested condition groups.
+ */
+export const collectConditionKeys = (conditions: FilterCondition | undefined): string[] => {
+	if (!conditions) return []
+
+	const keys = Object.keys(conditions).filter((key) => !groupKeys.includes(key))
+	for (const group of [...(conditions.any_of ?? []), ...(conditions.all_of ?? []), conditions.not]) {
+		keys.push(...collectConditionKeys(group))
+	}
+
+	return keys
+}
+
+const priorityKeys = ["keywords", "contentRatings", "max_seasons", "requestedBy_group", "schedule"]
+
+/**
+ * Evaluates a conditions object against the webhook + media data. Flat keys are ANDed together;
+ * `any_of`, `all_of` and `not` groups nest arbitrarily.
+ * Prioritizes keys: keywords, contentRatings, max_seasons, requestedBy_group, schedule.
+ */
+export const matchConditions = (
+	conditions: FilterCondition,
+	webhook: Webhook,
+	data: MediaData,
+	options: MatchOptions = {}
+): boolean => {
+	for (const priorityKey of priorityKeys) {
+		if (!(priorityKey in conditions)) continue
+		const value = (conditions as any)[priorityKey]
+
+		if (priorityKey === "keywords") {
+			if (!data.keywords) return false
+			if (!matchKeywords(data.keywords, value as Condition)) return false
+
+			if (logger.isDebugEnabled()) {
+				logger.debug(
+					buildDebugLogMessage("Filter check:", {
+						Field: priorityKey,
+						"Filter value": value,
+						"Request value": "Keywords array (matched)",
+					})
+				)
+			}
+		} else if (priorityKey === "contentRatings") {
+			const certifications = extractCertifications(data)
+			if (certifications.results.length === 0) return false
+			if (!matchContentRatings(certifications, value as Condition)) return false
+
+			if (logger.isDebugEnabled()) {
+				logger.debug(
+					buildDebugLogMessage("Filter check:", {
+						Field: priorityKey,
+						"Filter value": value,
+						"Request value": "Content ratings array (matched)",
+					})
+				)
+			}
+		} else if (priorityKey === "max_seasons") {
+			if (!webhook.extra) return false
+			const requestedSeasons = webhook.extra.find((item: any) => item.name === "Requested Seasons")?.value?.split(",")
+			const max = typeof value === "number" ? value : Number.parseInt(String(value), 10)
+			if (Number.isFinite(max) && requestedSeasons && requestedSeasons.length > max) return false
+		} else if (priorityKey === "schedule") {
+			const now = options.now ?? new Date()
+			const schedules = (Array.isArray(value) ? value : [value]) as Schedule[]
+			if (!schedules.some((schedule) => matchSchedule(schedule, now, options.timezone))) {
+				logger.debug(`Filter check for schedule failed at ${now.toISOString()}.`)
+				return false
 			}
+		} else if (priorityKey === "requestedBy_group") {
+			const groups = getUserGroups(webhook, options.userGroups)
+			if (!matchUserGroups(groups, value as Condition)) {
+				logger.debug(`Filter check for user groups failed. User groups: ${groups.join(", ") || "none"}`)
+				return false
+			}
+		}
+	}
 
-			for (const [key, value] of Object.entries(conditions)) {
-				if (priorityKeys.includes(key)) continue
+	if (conditions.all_of && !conditions.all_of.every((group) => matchConditions(group, webhook, data, options))) {
+		logger.debug("Filter check for all_of group failed.")
+		return false
+	}
+
+	if (conditions.any_of && !conditions.any_of.some((group) => matchConditions(group, webhook, data, options))) {
+		logger.debug("Filter check for any_of group failed.")
+		return false
+	}
+
+	if (conditions.not && matchConditions(conditions.not, webhook, data, options)) {
+		logger.debug("Filter check for not group matched a negated condition.")
+		return false
+	}
+
+	for (const [key, value] of Object.entries(conditions) as Array<[string, Condition]>) {
+		if (priorityKeys.includes(key) || groupKeys.includes(key)) continue
+
+		const requestValue = resolveField(key, webhook, data, options)
+
+		if (requestValue === undefined || requestValue === null) {
+			logger.debug(`Filter check skipped - Key "${key}" not found in webhook or data`)
+			return false
+		}
+
+		if (logger.isDebugEnabled()) {
+			logger.debug(
+				buildDebugLogMessage("Filter check:", {
+					Field: key,
+					"Filter value": value,
+					"Request value": requestValue,
+				})
+			)
+		}
+
+		if (typeof value === "object" && value !== null) {
+			if ("require" in value && (value as any).require) {
+				if (!matchValue((value as any).require, requestValue, true)) {
+					logger.debug(`Filter check for required key "${key}" failed.`)
+					return false
+				}
+			}
 
-				const requestValue = (data as any)[key] ?? (webhook.request ? (webhook.request as any)[key] : undefined)
+			if ("include" in value && (value as any).include) {
+				if (!matchValue((value as any).include, requestValue, false)) {
+					logger.debug(`Filter check for included key "${key}" failed.`)
+					return false
+				}
+			}
 
-				if (requestValue === undefined || requestValue === null) {
-					logger.debug(`Filter check skipped - Key "${key}" not found in webhook or data`)
+			if ("exclude" in value && (value as any).exclude) {
+				if (matchValue((value as any).exclude, requestValue, false)) {
+					logger.debug(`Filter check for excluded key "${key}" matched an excluded value.`)
 					return false
 				}
+			}
 
-				if (logger.isDebugEnabled()) {
-					logger.debug(
-						buildDebugLogMessage("Filter check:", {
-							Field: key,
-							"Filter value": value,
-							"Request value": requestValue,
-						})
-					)
+			if ("regex" in value && (value as any).regex) {
+				if (!matchRegex((value as any).regex, requestValue)) {
+					logger.debug(`Filter check for regex key "${key}" failed.`)
+					return false
 				}
+			}
+
+			if (hasNumericOperator(value) && !matchNumeric(value, requestValue)) {
+				logger.debug(`Filter check for numeric key "${key}" failed.`)
+				return false
+			}
+
+			if (hasDateOperator(value) && !matchDate(value, requestValue)) {
+				logger.debug(`Filter check for date key "${key}" failed.`)
+				return false
+			}
+		} else {
+			if (!matchValue(value, requestValue, false)) {
+				logger.debug(`Filter check for key "${key}" failed.`)
+				return false
+			}
+		}
+	}
+
+	return true
+}
+
+/**
+ * Season matcher: passes when every season satisfies the condition
+ * (a season number, a list of season numbers or numeric operators).
+ */
+export const matchSeasons = (seasonCondition: SeasonCondition, seasons: number[]): boolean => {
+	if (seasons.length === 0) return false
+
+	return seasons.every((season) => {
+		if (typeof seasonCondition === "number") return season === seasonCondition
+		if (Array.isArray(seasonCondition)) return seasonCondition.includes(season)
+		return matchNumeric(seasonCondition, season)
+	})
+}
+
+/**
+ * Checks whether a single filter matches this webhook + media data.
+ */
+const filterMatches = (
+	{ media_type, is_4k, conditions, seasons }: Filter,
+	webhook: Webhook,
+	data: MediaData,
+	options: MatchOptions
+): boolean => {
+	if (media_type !== webhook.media.media_type) return false
+	if (is_4k === false && (webhook.media.status !== "PENDING" || webhook.media.status4k === "PENDING")) return false
+	if (is_4k === true && (webhook.media.status4k !== "PENDING" || webhook.media.status === "PENDING")) return false
+	if (seasons !== undefined && !matchSeasons(seasons, options.seasons ?? getRequestedSeasons(webhook))) return false
+
+	if (!conditions || Object.keys(conditions).length === 0) return true
+
+	return matchConditions(conditions, webhook, data, options)
+}
+
+/**
+ * Describes a filter for logs and responses: its name if set, otherwise its position in the config.
+ */
+export const describeFilter = (filter: Filter, filters: Filter[]): string =>
+	filter.name ? `"${filter.name}"` : `#${filters.indexOf(filter)}`
+
+/**
+ * Orders filters by descending priority (default 0), keeping config order for equal priorities.
+ */
+export const sortFilters = (filters: Filter[]): Filter[] =>
+	filters
+		.map((filter, index) => ({ filter, index }))
+		.sort((a, b) => (b.filter.priority ?? 0) - (a.filter.priority ?? 0) || a.index - b.index)
+		.map(({ filter }) => filter)
+
+/**
+ * Finds the filters that match this webhook + media data, ordered by priority then position.
+ * Evaluation stops at the first match unless matchMode is "all" or the matching filter sets `continue: true`.
+ */
+export const findMatchingFilters = (webhook: Webhook, data: MediaData, filters: Filter[], options: MatchOptions = {}): Filter[] => {
+	try {
+		const matches: Filter[] = []
 
-				if (typeof value === "object" && value !== null) {
-					if ("require" in value && (value as any).require) {
-						if (!matchValue((value as any).require, requestValue, true)) {
-							logger.debug(`Filter check for required key "${key}" failed.`)
-							return false
-						}
-					}
-
-					if ("include" in value && (value as any).include) {
-						if (!matchValue((value as any).include, requestValue, false)) {
-							logger.debug(`Filter check for included key "${key}" failed.`)
-							return false
-						}
-					}
-
-					if ("exclude" in value && (value as any).exclude) {
-						if (matchValue((value as any).exclude, requestValue, false)) {
-							logger.debug(`Filter check for excluded key "${key}" matched an excluded value.`)
-							return false
-						}
-					}
-				} else {
-					if (!matchValue(value, requestValue, false)) {
-						logger.debug(`Filter check for key "${key}" failed.`)
-						return false
-					}
+		for (const filter of sortFilters(filters)) {
+			logger.debug(`Evaluating filter ${describeFilter(filter, filters)}`)
+			if (!filterMatches(filter, webhook, data, options)) continue
+
+			// Non-route actions decide the outcome on their own and only apply when nothing matched before them
+			if ((filter.action ?? "route") !== "route") {
+				if (matches.length > 0) {
+					logger.debug(`Ignoring "${filter.action}" filter ${describeFilter(filter, filters)} after earlier matches`)
+					continue
 				}
+				matches.push(filter)
+				break
 			}
 
-			return true
-		})
+			matches.push(filter)
+			if (options.matchMode !== "all" && !filter.continue) break
+		}
 
-		if (!matchingFilter) {
+		if (matches.length === 0) {
 			logger.info("No matching filter found for the current webhook")
-			return null
+		} else {
+			const labels = matches.map((f) => describeFilter(f, filters)).join(", ")
+			logger.info(`Found matching ${matches.length === 1 ? "filter" : "filters"} ${labels}`)
 		}
 
-		logger.info(`Found matching filter at index ${filters.indexOf(matchingFilter)}`)
-		return matchingFilter.apply
+		return matches
 	} catch (error) {
 		logger.error(`Error finding matching filter: ${error}`)
-		return null
+		return []
+	}
+}
+
+/**
+ * Normalizes a single target or list of targets to an array
+ */
+export const normalizeApply = <T>(apply: T | T[] | undefined): T[] => (apply === undefined ? [] : Array.isArray(apply) ? apply : [apply])
+
+/**
+ * Merges the `apply` targets of matched routing filters.
+ * A single match returns its `apply` as-is; multiple matches return the de-duplicated union of targets.
+ */
+export const mergeTargets = (matches: Filter[]): Target | Target[] | null => {
+	const routes = matches.filter((f) => (f.action ?? "route") === "route" && f.apply !== undefined)
+
+	if (routes.length === 0) return null
+	if (routes.length === 1) return routes[0]!.apply!
+
+	return [...new Set(routes.flatMap((f) => normalizeApply(f.apply)))]
+}
+
+/**
+ * Merges the `fallback` instances of matched routing filters, in match order
+ */
+export const mergeFallbacks = (matches: Filter[]): string[] => {
+	const routes = matches.filter((f) => (f.action ?? "route") === "route" && f.apply !== undefined)
+	return [...new Set(routes.flatMap((f) => normalizeApply(f.fallback)))]
+}
+
+/**
+ * Merges the request options of matched routing filters.
+ * The first filter setting a language profile wins; tags from every filter are combined.
+ */
+export const mergeRequestOptions = (matches: Filter[]): Pick<PostData, "languageProfileId" | "tags"> => {
+	const routes = matches.filter((f) => (f.action ?? "route") === "route" && f.apply !== undefined)
+	const options: Pick<PostData, "languageProfileId" | "tags"> = {}
+
+	const languageProfileId = routes.find((f) => f.language_profile_id !== undefined)?.language_profile_id
+	if (languageProfileId !== undefined) options.languageProfileId = languageProfileId
+
+	const tags = [...new Set(routes.flatMap((f) => f.tags ?? []))]
+	if (tags.length) options.tags = tags
+
+	return options
+}
+
+/**
+ * Matches every requested season on its own and groups seasons that resolve to the same filters,
+ * so one multi-season request can be split across instances. Groups keep the order of first appearance.
+ */
+export const splitSeasons = (webhook: Webhook, data: MediaData, filters: Filter[], options: MatchOptions = {}): SeasonGroup[] => {
+	const groups = new Map<string, SeasonGroup>()
+
+	for (const season of getRequestedSeasons(webhook)) {
+		const matches = findMatchingFilters(webhook, data, filters, { ...options, seasons: [season] })
+		const key = matches.map((f) => filters.indexOf(f)).join(",")
+
+		const group = groups.get(key)
+		if (group) group.seasons.push(season)
+		else groups.set(key, { seasons: [season], matches })
 	}
+
+	return [...groups.values()]
 }
+
+/**
+ * Finds the matching filters and returns their merged `apply` targets.
+ */
+export const findInstances = (
+	webhook: Webhook,
+	data: MediaData,
+	filters: Filter[],
+	options: MatchOptions = {}
+): Target | Target[] | null => mergeTargets(findMatchingFilters(webhook, data, filters, options))
@@ -1,45 +1,222 @@
 import logger from "../utils/logger"
 import { config } from "../config"
-import { approveRequest, applyConfig } from "../api/overseerr"
-import { buildDebugLogMessage } from "../utils/helpers"
-import type { PostData } from "../types"
+import { approveRequest, applyConfig, fetchFromOverseerr } from "../api/overseerr"
+import { fetchRootFolders, findFreeSpace } from "../api/arr"
+import { buildDebugLogMessage, getStaticPathPrefix } from "../utils/helpers"
+import { loadState, saveState } from "../utils/state"
+import { getPoolMembers, pickPoolInstance } from "./pool"
+import { normalizeApply } from "./filter"
+import type { PostData, PoolState, RootFolder, InstanceResult, ApplyTarget, Target } from "../types"
+
+// Pool positions are persisted so round-robin survives restarts
+let poolState = loadState<PoolState>("pools", {})
+
+const GB = 1024 ** 3
 
 /**
- * Send request to configured instances
+ * Look up the free space in bytes of a root folder on an instance, returning undefined if it cannot be retrieved
  */
-export const sendToInstances = async (instances: string | string[], requestId: string, data: PostData): Promise<void> => {
-    const instancesArray = Array.isArray(instances) ? instances : [instances]
-    
-    for (const item of instancesArray) {
-        try {
-            let postData = { ...data } as Record<string, any>
-            const instance = config.instances[item]
-            
-            if (!instance) {
-                logger.warn(`Instance "${item}" not found in config`)
-                continue
-            }
-            
-            // Add instance-specific configuration
-            postData.rootFolder = instance.root_folder
-            postData.serverId = instance.server_id
-            if (instance.quality_profile_id) postData.profileId = instance.quality_profile_id
-
-            if (logger.isDebugEnabled()) {
-                logger.debug(buildDebugLogMessage("Sending configuration to instance:", { instance: item, postData }))
-            }
+const getFreeSpace = async (
+    name: string,
+    rootFolder: string,
+    mediaType: string,
+    cache: Map<string, Promise<RootFolder[]>>
+): Promise<number | undefined> => {
+    const instance = config.instances[name]
+    if (!instance) return undefined
+
+    // Instances sharing a server share one root folder lookup
+    const source = instance.url ?? `/api/v1/service/${instance.type ?? (mediaType === "tv" ? "sonarr" : "radarr")}/${instance.server_id}`
+    if (!cache.has(source)) {
+        cache.set(
+            source,
+            instance.url && instance.api_key
+                ? fetchRootFolders(instance.url, instance.api_key)
+                : fetchFromOverseerr(source).then((service) => service?.rootFolders ?? [])
+        )
+    }
+
+    try {
+        const rootFolders = await cache.get(source)!
+
+        // Templated root folders are checked by the part before the first placeholder
+        const prefix = getStaticPathPrefix(rootFolder)
+        const freeSpace = findFreeSpace(rootFolders, prefix ?? rootFolder)
+        if (freeSpace === undefined && prefix !== undefined) {
+            logger.debug(`Root folder "${rootFolder}" on instance "${name}" depends on the request, not checking free space`)
+        } else if (freeSpace === undefined) {
+            logger.warn(`Root folder "${rootFolder}" not found on instance "${name}"`)
+        }
+        return freeSpace
+    } catch (error) {
+        logger.warn(`Could not check free space for instance "${name}": ${error}`)
+        return undefined
+    }
+}
+
+/**
+ * Resolve pool targets to one of their instances and skip instances below their free space threshold.
+ * Targets are returned as objects carrying the filter's overrides. Instances whose free space cannot be determined are not skipped.
+ */
+export const resolveTargets = async (targets: Target | Target[], mediaType: string, tmdbId: string): Promise<ApplyTarget[]> => {
+    const resolved = new Map<string, ApplyTarget>()
+    const freeSpace = new Map<string, number | undefined>()
+    const rootFolders = new Map<string, Promise<RootFolder[]>>()
+    let poolsUsed = false
+
+    // Free space is only looked up for instances with a threshold, or when a pool ranks by it
+    const checkSpace = async (name: string, rootFolder: string | undefined, lookup: boolean) => {
+        const threshold = config.instances[name]?.min_free_space_gb
+        if ((threshold === undefined && !lookup) || rootFolder === undefined) return { ok: true, space: undefined }
+
+        const key = `${name}:${rootFolder}`
+        if (!freeSpace.has(key)) freeSpace.set(key, await getFreeSpace(name, rootFolder, mediaType, rootFolders))
+        const space = freeSpace.get(key)
+        if (threshold === undefined || space === undefined || space >= threshold * GB) return { ok: true, space }
+
+        logger.warn(`Skipping instance "${name}": ${(space / GB).toFixed(1)} GB free, below the ${threshold} GB threshold`)
+        return { ok: false, space }
+    }
+
+    for (const target of normalizeApply(targets)) {
+        const { instance: name, ...overrides } = typeof target === "string" ? { instance: target } : target
+        const add = (instance: string) => {
+            const entry = { instance, ...overrides }
+            resolved.set(JSON.stringify(entry), entry)
+        }
+
+        const pool = config.pools?.[name]
+        if (!pool) {
+            const { ok } = await checkSpace(name, overrides.root_folder ?? config.instances[name]?.root_folder, false)
+            if (ok) add(name)
+            continue
+        }
+
+        const members = []
+        const memberSpace: Record<string, number | undefined> = {}
+        for (const member of getPoolMembers(pool)) {
+            const rootFolder = overrides.root_folder ?? config.instances[member.instance]?.root_folder
+            const { ok, space } = await checkSpace(member.instance, rootFolder, pool.strategy === "most_free_space")
+            memberSpace[member.instance] = space
+            if (ok) members.push(member)
+        }
+        if (!members.length) {
+            logger.warn(`Skipping pool "${name}": no instance has enough free space`)
+            continue
+        }
+
+        const { instance, state } = pickPoolInstance(pool, poolState[name], tmdbId, {
+            freeSpace: memberSpace,
+            available: members.map((m) => m.instance),
+        })
+        poolState = { ...poolState, [name]: state }
+        poolsUsed = true
 
-            // Apply configuration to the request
-            await applyConfig(requestId, postData)
-            logger.info(`Configuration applied for request ID ${requestId} on instance "${item}"`)
+        logger.info(`Pool "${name}" selected instance "${instance}" (${pool.strategy})`)
+        add(instance)
+    }
+
+    if (poolsUsed) saveState("pools", poolState)
+
+    return [...resolved.values()]
+}
+
+interface SendOptions {
+    allowApprove?: boolean // Set to false to apply the configuration but leave the request pending
+    fallbacks?: string[] // Filter fallbacks, tried after the target's own instance fallbacks
+    renderRootFolder?: (template: string) => string // Fills in root folder placeholders
+    requestOptions?: Pick<PostData, "languageProfileId" | "tags"> // Filter request options, applied to targets but not fallbacks
+}
+
+/**
+ * Apply the instance's configuration, with the target's overrides, to a request and approve it if allowed.
+ * Returns whether the request was approved.
+ */
+const sendToInstance = async (
+    target: ApplyTarget,
+    requestId: string,
+    data: PostData,
+    { allowApprove = true, renderRootFolder = (template) => template, requestOptions = {} }: SendOptions
+): Promise<boolean> => {
+    const { instance: name, ...overrides } = target
+    if (!config.instances[name]) throw new Error(`instance "${name}" not found in config`)
+    const instance = { ...config.instances[name]!, ...overrides }
+
+    // Add instance-specific configuration
+    const postData = { ...data } as Record<string, any>
+    postData.rootFolder = renderRootFolder(instance.root_folder)
+    postData.serverId = instance.server_id
+    if (instance.quality_profile_id) postData.profileId = instance.quality_profile_id
+
+    // The target's override wins over the filter's language profile, which wins over the instance's
+    const languageProfileId = overrides.language_profile_id ?? requestOptions.languageProfileId ?? instance.language_profile_id
+    if (languageProfileId !== undefined) postData.languageProfileId = languageProfileId
+    const tags = [...new Set([...(instance.tags ?? []), ...(requestOptions.tags ?? [])])]
+    if (tags.length) postData.tags = tags
+
+    if (logger.isDebugEnabled()) {
+        logger.debug(buildDebugLogMessage("Sending configuration to instance:", { instance: name, postData }))
+    }
 
-            // Approve the request if configured to do so
-            if (instance.approve ?? true) {
-                await approveRequest(requestId)
-                logger.info(`Request ID ${requestId} approved for instance "${item}"`)
+    // Apply configuration to the request
+    await applyConfig(requestId, postData)
+    logger.info(`Configuration applied for request ID ${requestId} on instance "${name}"`)
+
+    // Approve the request if configured to do so
+    if ((instance.approve ?? true) && allowApprove) {
+        await approveRequest(requestId)
+        logger.info(`Request ID ${requestId} approved for instance "${name}"`)
+        return true
+    }
+
+    return false
+}
+
+/**
+ * Send request to configured instances.
+ * When sending to a target fails, its instance fallbacks and then the filter fallbacks are tried in order.
+ * Fallbacks use their own instance settings, without the target's overrides or the filter's request options.
+ */
+export const sendToInstances = async (
+    targets: ApplyTarget[],
+    requestId: string,
+    data: PostData,
+    options: SendOptions = {}
+): Promise<InstanceResult[]> => {
+    const fallbacks = options.fallbacks ?? []
+    const targetNames = targets.map((t) => t.instance)
+    const results: InstanceResult[] = []
+    const received = new Set<string>()
+
+    for (const target of targets) {
+        const name = target.instance
+        const candidates = [...new Set([name, ...normalizeApply(config.instances[name]?.fallback), ...fallbacks])]
+        const result: InstanceResult = { target: name, approved: false }
+
+        for (const candidate of candidates) {
+            // Skip fallbacks that already received the request or are targets themselves
+            if (candidate !== name && (received.has(candidate) || targetNames.includes(candidate))) continue
+
+            try {
+                result.approved =
+                    candidate === name
+                        ? await sendToInstance(target, requestId, data, options)
+                        : await sendToInstance({ instance: candidate }, requestId, data, { ...options, requestOptions: {} })
+                result.instance = candidate
+                received.add(candidate)
+                break
+            } catch (error) {
+                logger.warn(`Failed to process request ID ${requestId} for instance "${candidate}": ${error}`)
             }
-        } catch (error) {
-            logger.warn(`Failed to process request ID ${requestId} for instance "${item}": ${error}`)
         }
+
+        if (!result.instance) {
+            logger.error(`Request ID ${requestId} could not be sent to instance "${name}" or any of its fallbacks`)
+        } else if (result.instance !== name) {
+            logger.info(`Request ID ${requestId} sent to fallback instance "${result.instance}" instead of "${name}"`)
+        }
+        results.push(result)
     }
+
+    return results
 }
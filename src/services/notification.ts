@@ -0,0 +1,45 @@
+import type { FilterAction, NotificationType } from "../types"
+
+// Overseerr notification types that carry request status changes Redirecterr does not act on
+const statusNotificationTypes = ["MEDIA_APPROVED", "MEDIA_AVAILABLE", "MEDIA_DECLINED", "MEDIA_FAILED", "MEDIA_AUTO_REQUESTED"]
+
+/**
+ * Returns why a notification is not processed, or null if it is handled.
+ * Test notifications are always handled; request notifications only when listed in notification_types.
+ */
+export const getIgnoreReason = (notificationType: unknown, notificationTypes: NotificationType[]): string | null => {
+    if (notificationType === "TEST_NOTIFICATION") return null
+    if (notificationTypes.includes(notificationType as NotificationType)) return null
+
+    if (notificationType === "MEDIA_PENDING" || notificationType === "MEDIA_AUTO_APPROVED") {
+        return `Ignored ${notificationType} notification (not in notification_types)`
+    }
+    if (typeof notificationType === "string" && (statusNotificationTypes.includes(notificationType) || notificationType.startsWith("ISSUE_"))) {
+        return `Ignored ${notificationType} notification`
+    }
+
+    return `Ignored unknown notification type ${JSON.stringify(notificationType ?? null)}`
+}
+
+export interface RequestDecision {
+    action: FilterAction | "none"
+    approve: boolean // Whether the request may be approved, which also makes it count towards quotas
+}
+
+/**
+ * Decides what to do with a request from the action of its first matching filter and whether any matching filter routes it.
+ * Auto-approved requests can only be re-routed: they are never approved, declined or held.
+ */
+export const decideRequest = (
+    notificationType: string,
+    filterAction: FilterAction | undefined,
+    routed: boolean,
+    approveOnNoMatch: boolean
+): RequestDecision => {
+    if (notificationType === "MEDIA_AUTO_APPROVED") return { action: routed ? "route" : "none", approve: false }
+
+    if (filterAction === "decline" || filterAction === "hold" || filterAction === "approve") return { action: filterAction, approve: true }
+    if (routed) return { action: "route", approve: true }
+
+    return { action: approveOnNoMatch ? "approve" : "none", approve: true }
+}
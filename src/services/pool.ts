@@ -0,0 +1,76 @@
+import type { PoolConfig, PoolMember, PoolState } from "../types"
+
+type PoolEntry = PoolState[string]
+
+/**
+ * Normalizes pool members to { instance, weight } objects
+ */
+export const getPoolMembers = (pool: PoolConfig): Required<PoolMember>[] =>
+    pool.instances.map((member) =>
+        typeof member === "string" ? { instance: member, weight: 1 } : { instance: member.instance, weight: member.weight ?? 1 }
+    )
+
+/**
+ * FNV-1a hash of a string, used to pin a title to the same pool member
+ */
+export const hashString = (value: string): number => {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+interface PickOptions {
+    now?: number
+    random?: () => number
+    freeSpace?: Record<string, number | undefined> // Bytes per instance, used by most_free_space
+    available?: string[] // Instances that may be picked, defaults to every member
+}
+
+/**
+ * Picks one instance from a pool according to its strategy.
+ * Returns the chosen instance and the updated pool state; the input state is not modified.
+ * Round-robin keeps its position in the full member list and moves past members that are not available.
+ */
+export const pickPoolInstance = (
+    pool: PoolConfig,
+    state: PoolEntry | undefined,
+    key: string,
+    { now = Date.now(), random = Math.random, freeSpace = {}, available }: PickOptions = {}
+): { instance: string; state: PoolEntry } => {
+    const allMembers = getPoolMembers(pool)
+    const members = available ? allMembers.filter((m) => available.includes(m.instance)) : allMembers
+    const current: PoolEntry = { next: state?.next ?? 0, lastUsed: { ...state?.lastUsed } }
+    let chosen = members[0]!
+
+    switch (pool.strategy) {
+        case "round_robin": {
+            const start = current.next % allMembers.length
+            const index =
+                allMembers.map((_, i) => (start + i) % allMembers.length).find((i) => members.includes(allMembers[i]!)) ?? start
+            chosen = allMembers[index]!
+            current.next = (index + 1) % allMembers.length
+            break
+        }
+        case "weighted": {
+            const total = members.reduce((sum, m) => sum + m.weight, 0)
+            let roll = random() * total
+            chosen = members.find((m) => (roll -= m.weight) < 0) ?? members[members.length - 1]!
+            break
+        }
+        case "hash":
+            chosen = members[hashString(key) % members.length]!
+            break
+        case "least_recently_used":
+            chosen = members.reduce((lru, m) => ((current.lastUsed[m.instance] ?? 0) < (current.lastUsed[lru.instance] ?? 0) ? m : lru))
+            break
+        case "most_free_space":
+            chosen = members.reduce((most, m) => ((freeSpace[m.instance] ?? -1) > (freeSpace[most.instance] ?? -1) ? m : most))
+            break
+    }
+
+    current.lastUsed[chosen.instance] = now
+    return { instance: chosen.instance, state: current }
+}
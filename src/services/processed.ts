@@ -0,0 +1,65 @@
+import { Database } from "bun:sqlite"
+import type { ProcessedRequest, ProcessedOutcome } from "../types"
+
+interface ProcessedRow {
+    request_id: string
+    decision: string
+    targets: string
+    outcome: ProcessedOutcome
+    timestamp: number
+}
+
+/**
+ * Opens the SQLite store of processed requests, creating the database and table if needed
+ */
+export const createProcessedStore = (filename: string) => {
+    const db = new Database(filename, { create: true })
+    db.run(`
+        CREATE TABLE IF NOT EXISTS processed_requests (
+            request_id TEXT PRIMARY KEY,
+            decision TEXT NOT NULL,
+            targets TEXT NOT NULL,
+            outcome TEXT NOT NULL,
+            timestamp INTEGER NOT NULL
+        )
+    `)
+    db.run("CREATE INDEX IF NOT EXISTS processed_requests_timestamp ON processed_requests (timestamp)")
+
+    const selectQuery = db.query<ProcessedRow, [string]>("SELECT * FROM processed_requests WHERE request_id = ?")
+    const upsertQuery = db.query(
+        "INSERT OR REPLACE INTO processed_requests (request_id, decision, targets, outcome, timestamp) VALUES (?, ?, ?, ?, ?)"
+    )
+    const pruneQuery = db.query("DELETE FROM processed_requests WHERE timestamp < ?")
+
+    return {
+        /**
+         * Get the last processing result of a request
+         */
+        get: (requestId: string): ProcessedRequest | undefined => {
+            const row = selectQuery.get(requestId)
+            if (!row) return undefined
+
+            return {
+                requestId: row.request_id,
+                decision: row.decision,
+                targets: JSON.parse(row.targets),
+                outcome: row.outcome,
+                timestamp: row.timestamp,
+            }
+        },
+
+        /**
+         * Record the result of processing a request, replacing any earlier result
+         */
+        record: (entry: ProcessedRequest): void => {
+            upsertQuery.run(entry.requestId, entry.decision, JSON.stringify(entry.targets), entry.outcome, entry.timestamp)
+        },
+
+        /**
+         * Delete results recorded before the given timestamp, returning how many were deleted
+         */
+        prune: (before: number): number => pruneQuery.run(before).changes,
+
+        close: (): void => db.close(),
+    }
+}
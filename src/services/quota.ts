@@ -0,0 +1,125 @@
+import { getUserGroups } from "./filter"
+import type { Webhook, Quota, QuotaEntry, QuotaState, UserGroups } from "../types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const identitiesOf = (username: string, email: string): string[] =>
+    [username, email].filter((v) => v !== "").map((v) => v.toLowerCase())
+
+/**
+ * Checks whether a recorded entry belongs to any of the given identities (usernames or emails)
+ */
+const entryBelongsTo = (entry: QuotaEntry, identities: string[]): boolean =>
+    identitiesOf(entry.username, entry.email).some((id) => identities.includes(id))
+
+/**
+ * Counts the requests in the quota window that count towards this user's quota
+ */
+export const countQuotaUsage = (
+    quota: Quota,
+    entries: QuotaEntry[],
+    webhook: Webhook,
+    userGroups: UserGroups = {},
+    now = new Date()
+): number => {
+    const since = now.getTime() - quota.days * DAY_MS
+    let identities = identitiesOf(webhook.request.requestedBy_username ?? "", webhook.request.requestedBy_email ?? "")
+
+    // Group quotas share one count across every member of the user's quota groups
+    if (quota.scope === "group") {
+        const groups = getUserGroups(webhook, userGroups).filter((g) =>
+            quota.groups?.some((q) => q.toLowerCase() === g.toLowerCase())
+        )
+        identities = groups.flatMap((g) => (userGroups[g] ?? []).map((m) => m.toLowerCase()))
+    }
+
+    return entries.filter(
+        (entry) =>
+            entry.timestamp > since &&
+            (!quota.media_type || entry.media_type === quota.media_type) &&
+            entryBelongsTo(entry, identities)
+    ).length
+}
+
+/**
+ * Finds the first quota this request would exceed, or null if it is within every quota
+ */
+export const findExceededQuota = (
+    quotas: Quota[],
+    entries: QuotaEntry[],
+    webhook: Webhook,
+    userGroups: UserGroups = {},
+    now = new Date()
+): Quota | null => {
+    const memberOf = getUserGroups(webhook, userGroups).map((g) => g.toLowerCase())
+
+    for (const quota of quotas) {
+        if (quota.media_type && quota.media_type !== webhook.media.media_type) continue
+        if (quota.groups && !quota.groups.some((g) => memberOf.includes(g.toLowerCase()))) continue
+
+        if (countQuotaUsage(quota, entries, webhook, userGroups, now) >= quota.limit) return quota
+    }
+
+    return null
+}
+
+/**
+ * Records an approved request and drops entries older than the longest quota window
+ */
+export const recordQuotaUsage = (quotas: Quota[], entries: QuotaEntry[], webhook: Webhook, now = new Date()): QuotaEntry[] => {
+    const maxDays = Math.max(0, ...quotas.map((q) => q.days))
+    const since = now.getTime() - maxDays * DAY_MS
+
+    return [
+        ...entries.filter((entry) => entry.timestamp > since),
+        {
+            username: webhook.request.requestedBy_username ?? "",
+            email: webhook.request.requestedBy_email ?? "",
+            media_type: webhook.media.media_type,
+            timestamp: now.getTime(),
+        },
+    ]
+}
+
+/**
+ * Describes a quota for logs and responses
+ */
+export const describeQuota = (quota: Quota): string =>
+    quota.name ? `"${quota.name}"` : `${quota.limit} ${quota.media_type ?? "request"}s per ${quota.days} days`
+
+/**
+ * Tracks quota usage across requests, starting from the given state and saving every change.
+ * Checking a request reserves its usage in the same step, so concurrent requests cannot all pass the check.
+ */
+export const createQuotaTracker = (
+    quotas: Quota[],
+    userGroups: UserGroups,
+    state: QuotaState,
+    save: (state: QuotaState) => void
+) => {
+    let entries = state.entries
+
+    return {
+        /**
+         * Finds the first quota this request would exceed. If it is within every quota, its usage is recorded
+         * right away and can be released again if the request ends up not being approved.
+         */
+        reserve: (webhook: Webhook, now = new Date()): { exceeded: Quota | null; release: () => void } => {
+            const exceeded = findExceededQuota(quotas, entries, webhook, userGroups, now)
+            if (exceeded || !quotas.length) return { exceeded, release: () => {} }
+
+            entries = recordQuotaUsage(quotas, entries, webhook, now)
+            const reserved = entries[entries.length - 1]
+            save({ entries })
+
+            return {
+                exceeded: null,
+                release: () => {
+                    if (!entries.includes(reserved!)) return
+                    entries = entries.filter((entry) => entry !== reserved)
+                    save({ entries })
+                },
+            }
+        },
+    }
+}
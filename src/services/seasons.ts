@@ -0,0 +1,31 @@
+import logger from "../utils/logger"
+import { applyConfig, createRequest, fetchFromOverseerr } from "../api/overseerr"
+import type { Webhook, SeasonGroup } from "../types"
+
+/**
+ * Split a multi-season request across season groups.
+ * The original request keeps the first group's seasons; a new request is created on behalf of the same
+ * user for every other group. Each new request triggers its own webhook and is routed from there.
+ */
+export const splitRequest = async (webhook: Webhook, groups: SeasonGroup[]): Promise<void> => {
+    const { media, request } = webhook
+    const [first, ...rest] = groups
+    if (!first || rest.length === 0) return
+
+    const original = await fetchFromOverseerr(`/api/v1/request/${request.request_id}`)
+
+    // Shrink the original request first so the remaining seasons are free to be requested again
+    await applyConfig(request.request_id, { mediaType: "tv", seasons: first.seasons })
+    logger.info(`Request ID ${request.request_id} reduced to seasons ${first.seasons.join(", ")}`)
+
+    for (const group of rest) {
+        const created = await createRequest({
+            mediaType: "tv",
+            mediaId: Number(media.tmdbId),
+            seasons: group.seasons,
+            is4k: original?.is4k ?? false,
+            userId: original?.requestedBy?.id,
+        })
+        logger.info(`Split seasons ${group.seasons.join(", ")} of request ID ${request.request_id} into request ID ${created?.id}`)
+    }
+}
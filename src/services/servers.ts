@@ -0,0 +1,100 @@
+import { findRootFolder } from "../api/arr"
+import { getStaticPathPrefix } from "../utils/helpers"
+import type { InstanceConfig, OverseerrServer, OverseerrService, RootFolder, ServiceType } from "../types"
+
+type Fetcher = (endpoint: string) => Promise<any>
+
+const SERVICE_TYPES: ServiceType[] = ["radarr", "sonarr"]
+
+interface ServerMatch {
+    type: ServiceType
+    server: OverseerrServer
+}
+
+/**
+ * Finds the Overseerr servers an instance may refer to, by server_name or server_id, limited to the instance's type if set
+ */
+const findServers = (instance: InstanceConfig, servers: Record<ServiceType, OverseerrServer[]>): ServerMatch[] => {
+    const byName = instance.server_name?.toLowerCase()
+    return SERVICE_TYPES.filter((type) => instance.type === undefined || instance.type === type).flatMap((type) =>
+        servers[type]
+            .filter((server) => (byName !== undefined ? server.name?.toLowerCase() === byName : server.id === instance.server_id))
+            .map((server) => ({ type, server }))
+    )
+}
+
+/**
+ * Checks that a root folder exists. A templated root folder is only known per request, so it is accepted
+ * when a root folder contains the part before its first placeholder, or starts with it.
+ */
+const rootFolderExists = (rootFolders: RootFolder[], rootFolder: string): boolean => {
+    const prefix = getStaticPathPrefix(rootFolder)
+    if (prefix === undefined) return !!findRootFolder(rootFolders, rootFolder)
+    return !!findRootFolder(rootFolders, prefix) || rootFolders.some((folder) => folder.path.startsWith(prefix))
+}
+
+/**
+ * Resolves server_name and quality_profile of instances to Overseerr IDs and checks that every root_folder exists.
+ * Overseerr is only queried when an instance uses server_name or quality_profile. Throws if anything cannot be found.
+ */
+export const resolveInstances = async (
+    instances: Record<string, InstanceConfig>,
+    fetcher: Fetcher
+): Promise<Record<string, InstanceConfig>> => {
+    const entries = Object.entries(instances)
+    if (!entries.some(([, i]) => i.server_name !== undefined || i.quality_profile !== undefined)) return instances
+
+    const servers = {
+        radarr: ((await fetcher("/api/v1/settings/radarr")) ?? []) as OverseerrServer[],
+        sonarr: ((await fetcher("/api/v1/settings/sonarr")) ?? []) as OverseerrServer[],
+    }
+    const services = new Map<string, OverseerrService>()
+    const getService = async ({ type, server }: ServerMatch): Promise<OverseerrService> => {
+        const endpoint = `/api/v1/service/${type}/${server.id}`
+        if (!services.has(endpoint)) services.set(endpoint, (await fetcher(endpoint)) ?? {})
+        return services.get(endpoint)!
+    }
+    const resolved = { ...instances }
+
+    for (const [name, instance] of entries) {
+        const label = instance.server_name !== undefined ? `"${instance.server_name}"` : `ID ${instance.server_id}`
+        const matches = findServers(instance, servers)
+
+        if (matches.length === 0) {
+            const available = SERVICE_TYPES.flatMap((type) => servers[type].map((s) => `"${s.name}" (${type} ID ${s.id})`))
+            throw new Error(`Instance "${name}" references unknown ${instance.type ?? "server"} ${label}. Available servers: ${available.join(", ")}`)
+        }
+
+        // A server ID is used by both Radarr and Sonarr, which only matters when a quality profile has to be resolved
+        const needsServer = instance.server_name !== undefined || instance.quality_profile !== undefined
+        if (needsServer && matches.length > 1) {
+            throw new Error(`Instance "${name}" matches more than one server with ${label}. Set type to radarr or sonarr, or use a unique server_name`)
+        }
+
+        const result: InstanceConfig = { ...instance, server_id: matches[0]!.server.id }
+
+        if (instance.quality_profile !== undefined) {
+            const profiles = (await getService(matches[0]!)).profiles ?? []
+            const profile = profiles.find((p) => p.name.toLowerCase() === instance.quality_profile!.toLowerCase())
+            if (!profile) {
+                throw new Error(
+                    `Instance "${name}" references unknown quality profile "${instance.quality_profile}" on server "${matches[0]!.server.name}". Available profiles: ${profiles.map((p) => p.name).join(", ")}`
+                )
+            }
+            result.quality_profile_id = profile.id
+        }
+
+        // Without a type, the root folder only has to exist on one of the servers sharing the ID
+        const rootFolders = (await Promise.all(matches.map(getService))).flatMap((service) => service.rootFolders ?? [])
+        if (!rootFolderExists(rootFolders, instance.root_folder)) {
+            const on = matches.map((m) => `"${m.server.name}"`).join(" or ")
+            throw new Error(
+                `Instance "${name}" root folder "${instance.root_folder}" does not exist on server ${on}. Available root folders: ${rootFolders.map((f) => f.path).join(", ")}`
+            )
+        }
+
+        resolved[name] = result
+    }
+
+    return resolved
+}
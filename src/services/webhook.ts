@@ -1,14 +1,111 @@
+import fs from "fs"
+import path from "path"
 import logger from "../utils/logger"
 import { config } from "../config"
-import { approveRequest, fetchFromOverseerr } from "../api/overseerr"
-import { getPostData, buildDebugLogMessage } from "../utils/helpers"
-import { findInstances } from "./filter"
-import { sendToInstances } from "./instance"
-import type { Webhook } from "../types"
+import { approveRequest, declineRequest, fetchFromOverseerr, fetchRequestUser } from "../api/overseerr"
+import { getPostData, buildDebugLogMessage, buildUserProfile, renderPathTemplate } from "../utils/helpers"
+import { findMatchingFilters, mergeTargets, mergeFallbacks, mergeRequestOptions, describeFilter, splitSeasons, collectConditionKeys, resolveField, normalizeApply } from "./filter"
+import { sendToInstances, resolveTargets } from "./instance"
+import { splitRequest } from "./seasons"
+import { getIgnoreReason, decideRequest } from "./notification"
+import { createQuotaTracker, describeQuota } from "./quota"
+import { loadState, saveState } from "../utils/state"
+import { createProcessedStore } from "./processed"
+import type { Webhook, UserProfile, QuotaState, ProcessedRequest, ProcessedOutcome } from "../types"
 
 // Track in-flight requests to prevent duplicate processing
 const inFlightRequests = new Set<string>()
 
+// Quota usage is persisted so it survives restarts
+const quotaTracker = createQuotaTracker(
+    config.quotas ?? [],
+    config.user_groups ?? {},
+    loadState<QuotaState>("quotas", { entries: [] }),
+    (state) => saveState("quotas", state)
+)
+
+// Processed requests are stored so retries and restarts do not process a request twice
+const retentionMs = config.processed_retention_days! * 24 * 60 * 60 * 1000
+let processedStore: ReturnType<typeof createProcessedStore> | undefined
+let processedStoreFailed = false // Only log the first of repeated failures to open the store
+
+/**
+ * Open the processed request store on first use, returning undefined if it cannot be opened.
+ * Requests are then processed without skipping earlier ones, and opening is retried on the next request.
+ */
+const getProcessedStore = (): ReturnType<typeof createProcessedStore> | undefined => {
+    if (processedStore) return processedStore
+
+    const filename = path.join(config.data_dir!, "processed.sqlite")
+    try {
+        fs.mkdirSync(config.data_dir!, { recursive: true })
+        const store = createProcessedStore(filename)
+        store.prune(Date.now() - retentionMs)
+        processedStoreFailed = false
+        return (processedStore = store)
+    } catch (error) {
+        if (!processedStoreFailed) {
+            logger.error(`Could not open processed request store ${filename}, requests will not be checked for earlier processing: ${error}`)
+        }
+        processedStoreFailed = true
+        return undefined
+    }
+}
+
+/**
+ * Get the earlier result of processing a request, returning undefined if there is none or it cannot be read
+ */
+const getProcessed = (requestId: string): ProcessedRequest | undefined => {
+    try {
+        return getProcessedStore()?.get(requestId)
+    } catch (error) {
+        logger.error(`Could not look up processed request ID ${requestId}: ${error}`)
+        return undefined
+    }
+}
+
+/**
+ * Record the result of processing a request and drop results older than the retention period
+ */
+const recordProcessed = (entry: ProcessedRequest): void => {
+    try {
+        const store = getProcessedStore()
+        store?.record(entry)
+        store?.prune(entry.timestamp - retentionMs)
+    } catch (error) {
+        logger.error(`Could not record processed request ID ${entry.requestId}: ${error}`)
+    }
+}
+
+// Root folders that may contain placeholders
+const rootFolders = [
+    ...Object.values(config.instances).map((instance) => instance.root_folder),
+    ...config.filters.flatMap((filter) =>
+        normalizeApply(filter.apply).flatMap((target) => (typeof target === "object" && target.root_folder ? [target.root_folder] : []))
+    ),
+]
+
+// Only fetch the requesting user's profile when a filter or root folder uses user.* fields
+const usesUserFields =
+    config.filters.some((filter) => collectConditionKeys(filter.conditions).some((key) => key.startsWith("user."))) ||
+    rootFolders.some((rootFolder) => /\{\s*user\./.test(rootFolder))
+
+/**
+ * Fetch the requesting user's profile, returning undefined if it cannot be retrieved
+ */
+const getUserProfile = async (requestId: string): Promise<UserProfile | undefined> => {
+    try {
+        const user = buildUserProfile(await fetchRequestUser(requestId))
+        if (logger.isDebugEnabled()) {
+            logger.debug(buildDebugLogMessage("Requesting user:", { ...user }))
+        }
+        return user
+    } catch (error) {
+        logger.warn(`Could not fetch user for request ID ${requestId}: ${error}`)
+        return undefined
+    }
+}
+
 /**
  * Create a standardized response
  */
@@ -22,6 +119,15 @@ export const createResponse = (status: string, message: string, statusCode: numb
     })
 }
 
+/**
+ * Returns a response for notifications that should not be processed, or null if the notification is handled.
+ * Called before the payload is validated, as ignored notifications may not carry request data.
+ */
+export const ignoreNotification = (notificationType: unknown): Response | null => {
+    const reason = getIgnoreReason(notificationType, config.notification_types!)
+    return reason === null ? null : createResponse("success", reason, 200)
+}
+
 /**
  * Handle webhook requests
  */
@@ -37,17 +143,41 @@ export const handleWebhook = async (webhook: Webhook): Promise<Response> => {
 
     const { media, request } = webhook
 
+    // Auto-approved requests can only be re-routed, they are never approved, declined or held
+    const autoApproved = webhook.notification_type === "MEDIA_AUTO_APPROVED"
+
     // Check for duplicate webhook
     if (inFlightRequests.has(request.request_id)) {
         return createResponse("success", `Request ID ${request.request_id} is already being processed`, 200)
     }
 
+    // Skip requests completed before, failed ones are retried
+    const processed = getProcessed(request.request_id)
+    if (processed && processed.outcome !== "failed") {
+        const sentTo = processed.targets.length ? ` to ${processed.targets.map((t) => `"${t}"`).join(", ")}` : ""
+        const at = new Date(processed.timestamp).toISOString()
+        return createResponse("success", `Request ID ${request.request_id} was already processed (${processed.decision}${sentTo} at ${at})`, 200)
+    }
+
+    /**
+     * Record the decision for this request and create the response
+     */
+    const complete = (decision: string, message: string, targets: string[] = [], outcome: ProcessedOutcome = "success"): Response => {
+        recordProcessed({ requestId: request.request_id, decision, targets, outcome, timestamp: Date.now() })
+        return outcome === "failed" ? createResponse("error", message, 500) : createResponse("success", message, 200)
+    }
+
     // Auto-approve music requests
     if (media.media_type === "music") {
+        if (autoApproved) return complete("none", "Auto-approved music request left unchanged")
         await approveRequest(request.request_id)
-        return createResponse("success", "Music request approved", 200)
+        return complete("approve", "Music request approved")
     }
 
+    // Reserved quota usage is released again unless the request ends up approved
+    let releaseQuota = () => {}
+    let approved = false
+
     try {
         inFlightRequests.add(request.request_id)
 
@@ -73,23 +203,102 @@ export const handleWebhook = async (webhook: Webhook): Promise<Response> => {
         }
 
         // Find matching instances based on filters
-        const instances = findInstances(webhook, data, config.filters)
+        const matchOptions = {
+            matchMode: config.match_mode,
+            userGroups: config.user_groups,
+            user: usesUserFields ? await getUserProfile(request.request_id) : undefined,
+            timezone: config.timezone,
+        }
         const postData = getPostData(webhook)
 
-        // Process request based on filter matches
-        if (instances) {
-            await sendToInstances(instances, request.request_id, postData)
-            return createResponse("success", `Request processed and sent to instances`, 200)
-        } else if (config.approve_on_no_match) {
-            logger.info(`Approving unmatched request ID ${request.request_id}`)
+        // Split multi-season requests whose seasons match different filters
+        const groups =
+            config.split_seasons && !autoApproved && (postData.seasons?.length ?? 0) > 1
+                ? splitSeasons(webhook, data, config.filters, matchOptions)
+                : []
+        const split = groups.length > 1
+        if (split) {
+            await splitRequest(webhook, groups)
+            postData.seasons = groups[0]!.seasons
+        }
+
+        const matches = split ? groups[0]!.matches : findMatchingFilters(webhook, data, config.filters, matchOptions)
+        const [primary] = matches
+        const label = primary ? describeFilter(primary, config.filters) : ""
+
+        const instances = mergeTargets(matches)
+        const { action, approve } = decideRequest(webhook.notification_type, primary?.action, instances !== null, !!config.approve_on_no_match)
+
+        // Decline and hold take the request out of routing entirely
+        if (action === "decline") {
+            await declineRequest(request.request_id, primary!.reason)
+            return complete("decline", `Request declined (matched by ${label})`)
+        } else if (action === "hold") {
+            return complete("hold", `Request left pending (matched by ${label})`)
+        } else if (action === "none") {
+            return complete("none", autoApproved ? "Auto-approved request left unchanged (no matching filter)" : "Request processed (no action taken)")
+        }
+
+        const targets = action === "route" ? await resolveTargets(instances!, media.media_type, media.tmdbId) : []
+        const wouldApprove =
+            approve && (action === "approve" || targets.some((t) => t.approve ?? config.instances[t.instance]?.approve ?? true))
+
+        // Quotas gate every approval made by Redirecterr. Usage is reserved in the same step as the check,
+        // so concurrent requests from one user cannot all pass it before any of them is approved
+        const reservation = wouldApprove ? quotaTracker.reserve(webhook) : null
+        const exceeded = reservation?.exceeded ?? null
+        if (reservation) releaseQuota = reservation.release
+        if (exceeded) {
+            logger.info(`Request ID ${request.request_id} exceeds quota ${describeQuota(exceeded)}`)
+
+            if (exceeded.action === "decline") {
+                await declineRequest(request.request_id, exceeded.reason)
+                return complete("decline", `Request declined (over quota ${describeQuota(exceeded)})`)
+            }
+        }
+        const quotaNote = exceeded ? `, left pending (over quota ${describeQuota(exceeded)})` : ""
+
+        if (action === "approve") {
+            const matchedBy = primary ? `matched by ${label}` : "no matching filter"
+            if (exceeded) return complete("hold", `Request not approved (${matchedBy})${quotaNote}`)
+
             await approveRequest(request.request_id)
-            return createResponse("success", "Request approved (no matching filter)", 200)
+            approved = true
+            return complete("approve", `Request approved (${matchedBy})`)
+        }
+
+        // Process request based on filter matches
+        const labels = matches.map((f) => describeFilter(f, config.filters)).join(", ")
+        if (!targets.length) {
+            return complete("hold", `Request left pending, no instance has enough free space (matched by ${labels})`)
+        }
+
+        const results = await sendToInstances(targets, request.request_id, postData, {
+            allowApprove: approve && !exceeded,
+            fallbacks: mergeFallbacks(matches),
+            requestOptions: mergeRequestOptions(matches),
+            renderRootFolder: (template) =>
+                renderPathTemplate(template, (key) => resolveField(key, webhook, data, matchOptions), config.root_folder_fallback!),
+        })
+        approved = results.some((r) => r.approved)
+
+        const sent = results.filter((r) => r.instance)
+        const failed = results.filter((r) => !r.instance)
+        if (!sent.length) {
+            return complete("route", `Request could not be sent to any instance (matched by ${labels})`, [], "failed")
         }
 
-        return createResponse("success", "Request processed (no action taken)", 200)
+        const sentTo = sent
+            .map((r) => (r.instance === r.target ? `"${r.instance}"` : `"${r.instance}" (fallback for "${r.target}")`))
+            .join(", ")
+        const failedNote = failed.length ? `, failed for ${failed.map((r) => `"${r.target}"`).join(", ")}` : ""
+        const sentBy = autoApproved ? "Auto-approved request re-routed" : "Request sent"
+        const message = `${sentBy} to ${sentTo} (matched by ${labels})${failedNote}${quotaNote}`
+        return complete("route", message, sent.map((r) => r.instance!), failed.length ? "partial" : "success")
     } catch (error) {
-        return createResponse("error", `Error processing webhook: ${error}`, 500)
+        return complete("error", `Error processing webhook: ${error}`, [], "failed")
     } finally {
+        if (!approved) releaseQuota()
         inFlightRequests.delete(request.request_id)
     }
 }
@@ -1,35 +1,162 @@
+import type { UserProfile } from "./webhook"
+
 export type Condition = string | string[] | ConditionValueObject
 
 export interface ConditionValueObject {
     include?: string | string[]
     exclude?: string | string[]
     require?: string | string[]
+    regex?: string | string[]
+    region?: string | string[]
+    gt?: number
+    gte?: number
+    lt?: number
+    lte?: number
+    between?: [number, number]
+    before?: string
+    after?: string
+    within_days?: number
+    older_than_years?: number
+    unreleased?: boolean
+}
+
+export interface FilterCondition {
+    any_of?: FilterCondition[]
+    all_of?: FilterCondition[]
+    not?: FilterCondition
+    [key: string]: Condition | FilterCondition | FilterCondition[] | undefined // For dynamic condition keys like "tag", "language" etc.
 }
 
-interface FilterCondition {
-    [key: string]: Condition // For dynamic condition keys like "tag", "language" etc.
+export interface ApplyTarget {
+    instance: string // Instance or pool name
+    root_folder?: string
+    quality_profile_id?: number
+    approve?: boolean
+    language_profile_id?: number
+    tags?: number[]
 }
 
+export type Target = string | ApplyTarget
+
 export interface Filter {
+    name?: string
+    priority?: number
     media_type: "movie" | "tv"
     is_4k?: boolean
     conditions?: FilterCondition
-    apply: string | string[]
+    seasons?: SeasonCondition
+    action?: FilterAction
+    reason?: string
+    apply?: Target | Target[]
+    fallback?: string | string[] // Instances tried in order when sending to a target fails
+    language_profile_id?: number // Overrides the instance's language profile
+    tags?: number[] // Added to the instance's tags
+    continue?: boolean
+}
+
+export interface Schedule {
+    days?: string[] // e.g. ["mon", "tue"] or ["saturday"]
+    start?: string // HH:MM, inclusive
+    end?: string // HH:MM, exclusive; may be earlier than start to wrap past midnight
+    timezone?: string
+}
+
+export type SeasonCondition = number | number[] | ConditionValueObject
+
+export type FilterAction = "route" | "decline" | "hold" | "approve"
+
+export type MatchMode = "first" | "all"
+
+export type NotificationType = "MEDIA_PENDING" | "MEDIA_AUTO_APPROVED"
+
+export interface MatchOptions {
+    matchMode?: MatchMode
+    userGroups?: UserGroups
+    user?: UserProfile // Requesting user's Overseerr profile, exposed as user.* fields
+    now?: Date // Time to evaluate schedule conditions at (defaults to the current time)
+    timezone?: string
+    seasons?: number[] // Seasons to match season filters against (defaults to all requested seasons)
+}
+
+export interface UserGroups {
+    [key: string]: string[] // Group name -> usernames or emails
+}
+
+export interface Quota {
+    name?: string
+    media_type?: "movie" | "tv"
+    limit: number
+    days: number
+    scope?: "user" | "group" // Count requests per user or shared across group members
+    groups?: string[] // Only apply to members of these user groups
+    action?: "hold" | "decline"
+    reason?: string
+}
+
+export interface SeasonGroup {
+    seasons: number[]
+    matches: Filter[]
+}
+
+export type PoolStrategy = "round_robin" | "weighted" | "hash" | "least_recently_used" | "most_free_space"
+
+export interface PoolMember {
+    instance: string
+    weight?: number
 }
 
-interface InstanceConfig {
-    server_id: number
+export interface PoolConfig {
+    strategy: PoolStrategy
+    instances: Array<string | PoolMember>
+}
+
+export interface InstanceResult {
+    target: string // Instance the request was routed to
+    instance?: string // Instance that received the request, undefined if it and all fallbacks failed
+    approved: boolean
+}
+
+export type ServiceType = "radarr" | "sonarr"
+
+export interface InstanceConfig {
+    server_id: number // Resolved from server_name at startup when omitted
+    server_name?: string
+    type?: ServiceType // Tells Radarr and Sonarr servers sharing a server_id apart
     root_folder: string
-    quality_profile_id?: number
+    quality_profile_id?: number // Resolved from quality_profile at startup when omitted
+    quality_profile?: string
+    language_profile_id?: number // Sonarr v3 only
+    tags?: number[]
     approve?: boolean
+    url?: string // Query free space directly from the *arr instead of through Overseerr
+    api_key?: string
+    min_free_space_gb?: number
+    fallback?: string | string[] // Instances tried in order when sending to this instance fails
+    extends?: string // Inherit settings from another instance, removed once resolved
 }
 
 export interface Config {
     overseerr_url: string
     overseerr_api_token: string
     approve_on_no_match?: boolean
+    match_mode?: MatchMode
+    split_seasons?: boolean
+    user_groups?: UserGroups
+    quotas?: Quota[]
+    data_dir?: string
+    timezone?: string
+    root_folder_fallback?: string
+    webhook_secret?: string
+    webhook_hmac_secret?: string
+    webhook_allowed_ips?: string[]
+    notification_types?: NotificationType[]
+    processed_retention_days?: number
+    defaults?: Partial<InstanceConfig> // Settings inherited by every instance
     instances: {
         [key: string]: InstanceConfig // For dynamic instance names
     }
+    pools?: {
+        [key: string]: PoolConfig // Apply targets that pick one of several instances
+    }
     filters: Filter[]
 }
@@ -0,0 +1,27 @@
+export interface QuotaEntry {
+    username: string
+    email: string
+    media_type: string
+    timestamp: number
+}
+
+export interface QuotaState {
+    entries: QuotaEntry[]
+}
+
+export interface PoolState {
+    [pool: string]: {
+        next: number // Round-robin position
+        lastUsed: { [instance: string]: number }
+    }
+}
+
+export type ProcessedOutcome = "success" | "partial" | "failed"
+
+export interface ProcessedRequest {
+    requestId: string
+    decision: string // e.g. route, approve, decline, hold
+    targets: string[] // Instances that received the request
+    outcome: ProcessedOutcome
+    timestamp: number
+}
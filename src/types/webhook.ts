@@ -23,6 +23,8 @@ export interface MediaData {
     originalName?: string
     keywords: Array<Keyword>
     contentRatings: ContentRatings
+    releases?: Releases
+    releaseDates?: Releases
     [key: string]: any
 }
 
@@ -39,7 +41,82 @@ export interface ContentRatings {
     results: ContentRating[]
 }
 
+export interface ReleaseDate {
+    certification: string
+    release_date?: string
+    type?: number
+}
+
+export interface Release {
+    iso_3166_1: string
+    release_dates?: ReleaseDate[]
+    releaseDates?: ReleaseDate[]
+}
+
+export interface Releases {
+    results: Release[]
+}
+
 export interface PostData {
     mediaType: string
     seasons?: number[]
+    languageProfileId?: number
+    tags?: number[]
+}
+
+export interface OverseerrUser {
+    id: number
+    email?: string
+    username?: string
+    plexUsername?: string
+    jellyfinUsername?: string
+    displayName?: string
+    userType?: number
+    permissions?: number
+    createdAt?: string
+    requestCount?: number
+    movieQuotaLimit?: number | null
+    movieQuotaDays?: number | null
+    tvQuotaLimit?: number | null
+    tvQuotaDays?: number | null
+}
+
+export interface RootFolder {
+    id?: number
+    path: string
+    freeSpace?: number // Bytes
+    totalSpace?: number
+}
+
+export interface OverseerrServer {
+    id: number
+    name: string
+    is4k?: boolean
+    isDefault?: boolean
+}
+
+export interface QualityProfile {
+    id: number
+    name: string
+}
+
+export interface OverseerrService {
+    server?: OverseerrServer
+    profiles?: QualityProfile[]
+    rootFolders?: RootFolder[]
+}
+
+export interface UserProfile {
+    id: number
+    username: string
+    email: string
+    type: string
+    permissions: string[]
+    createdAt?: string
+    accountAgeDays?: number
+    requestCount: number
+    movieQuotaLimit?: number
+    movieQuotaDays?: number
+    tvQuotaLimit?: number
+    tvQuotaDays?: number
 }
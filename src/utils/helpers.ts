@@ -1,4 +1,4 @@
-import type { Webhook, PostData } from "../types"
+import type { Webhook, PostData, OverseerrUser, UserProfile } from "../types"
 
 /**
  * Checks if an object is a valid webhook
@@ -20,30 +20,96 @@ export const isObject = (value: any): boolean =>
 export const isObjectArray = (value: any): boolean =>
     Array.isArray(value) && value.some((item: any) => isObject(item))
 
+/**
+ * Extracts the requested season numbers from a webhook's extra data
+ */
+export const getRequestedSeasons = (requestData: Webhook): number[] =>
+    requestData.extra
+        ?.find((item: any) => item.name === "Requested Seasons")
+        ?.value?.split(",")
+        .map(Number)
+        .filter(Number.isInteger) ?? []
+
 /**
  * Extracts post data from a webhook
  */
 export const getPostData = (requestData: Webhook): PostData => {
-    const { media, extra } = requestData
+    const { media } = requestData
     const postData: PostData = { mediaType: media.media_type }
 
-    if (media.media_type !== "tv" || !extra || extra.length === 0) {
+    if (media.media_type !== "tv") {
         return postData
     }
 
-    const seasons = extra
-        .find((item: any) => item.name === "Requested Seasons")
-        ?.value?.split(",")
-        .map(Number)
-        .filter(Number.isInteger)
+    const seasons = getRequestedSeasons(requestData)
 
-    if (seasons?.length > 0) {
+    if (seasons.length > 0) {
         postData["seasons"] = seasons
     }
 
     return postData
 }
 
+// Overseerr user types and permission bits
+const USER_TYPES: Record<number, string> = { 1: "plex", 2: "local", 3: "jellyfin", 4: "emby" }
+const PERMISSIONS: Record<string, number> = {
+    admin: 2,
+    manage_settings: 4,
+    manage_users: 8,
+    manage_requests: 16,
+    request: 32,
+    vote: 64,
+    auto_approve: 128,
+    auto_approve_movie: 256,
+    auto_approve_tv: 512,
+    request_4k: 1024,
+    request_4k_movie: 2048,
+    request_4k_tv: 4096,
+    request_advanced: 8192,
+    request_view: 16384,
+    auto_approve_4k: 32768,
+    auto_approve_4k_movie: 65536,
+    auto_approve_4k_tv: 131072,
+    request_movie: 262144,
+    request_tv: 524288,
+    manage_issues: 1048576,
+    view_issues: 2097152,
+    create_issues: 4194304,
+    auto_request: 8388608,
+    auto_request_movie: 16777216,
+    auto_request_tv: 33554432,
+    recent_view: 67108864,
+    watchlist_view: 134217728,
+}
+
+/**
+ * Builds the user.* condition fields from an Overseerr user
+ */
+export const buildUserProfile = (user: OverseerrUser, now = new Date()): UserProfile => {
+    const permissions = user.permissions ?? 0
+    const createdAt = user.createdAt ? new Date(user.createdAt) : null
+    const validCreatedAt = createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : null
+
+    return {
+        id: user.id,
+        username: user.username || user.plexUsername || user.jellyfinUsername || user.displayName || "",
+        email: user.email ?? "",
+        type: USER_TYPES[user.userType ?? 0] ?? "unknown",
+        permissions: Object.entries(PERMISSIONS)
+            .filter(([, bit]) => (permissions & bit) === bit)
+            .map(([name]) => name),
+        createdAt: user.createdAt,
+        accountAgeDays: validCreatedAt
+            ? Math.floor((now.getTime() - validCreatedAt.getTime()) / (24 * 60 * 60 * 1000))
+            : undefined,
+        requestCount: user.requestCount ?? 0,
+        movieQuotaLimit: user.movieQuotaLimit ?? undefined,
+        movieQuotaDays: user.movieQuotaDays ?? undefined,
+        tvQuotaLimit: user.tvQuotaLimit ?? undefined,
+        tvQuotaDays: user.tvQuotaDays ?? undefined,
+    }
+}
+
 /**
  * Normalizes a value to an array of lowercase strings
  */
@@ -52,6 +118,104 @@ export const normalizeToArray = (value: any): string[] => {
     return values.map((x) => String(x).toLowerCase())
 }
 
+/**
+ * Resolves a dot-path such as `genres.name`, `genres[0].name` or `credits.crew[job=Director].name`.
+ * Property access on an array fans out over its elements, in which case an array of all resolved
+ * values is returned. Returns undefined when nothing resolves.
+ */
+export const resolvePath = (source: unknown, path: string): unknown => {
+    const segments = path.match(/(?:[^.[\]]+|\[[^\]]*\])+/g)
+    if (!segments) return undefined
+
+    let values: unknown[] = [source]
+    let fannedOut = false
+
+    const access = (value: unknown, name: string): unknown[] => {
+        if (Array.isArray(value)) {
+            fannedOut = true
+            return value.flatMap((item) => access(item, name))
+        }
+        if (!isObject(value)) return []
+        const record = value as Record<string, unknown>
+        return name in record ? [record[name]] : []
+    }
+
+    for (const segment of segments) {
+        const [, name, brackets = ""] = segment.match(/^([^[]*)(.*)$/) ?? []
+        if (name) values = values.flatMap((value) => access(value, name))
+
+        for (const [, selector = ""] of brackets.matchAll(/\[([^\]]*)\]/g)) {
+            const eq = selector.indexOf("=")
+            values = values.flatMap((value): unknown[] => {
+                if (!Array.isArray(value)) return []
+                if (eq === -1) {
+                    const index = Number(selector)
+                    if (!Number.isInteger(index)) return []
+                    const item = value.at(index)
+                    return item === undefined ? [] : [item]
+                }
+                const key = selector.slice(0, eq).trim()
+                const expected = selector.slice(eq + 1).trim().toLowerCase()
+                return [value.filter((item) => isObject(item) && String(item[key]).toLowerCase() === expected)]
+            })
+        }
+
+        values = values.filter((value) => value !== undefined && value !== null)
+        if (values.length === 0) return undefined
+    }
+
+    return fannedOut ? values.flat() : values[0]
+}
+
+/**
+ * Makes a value safe to use as a single path segment.
+ * Path separators and characters not allowed in file names are replaced with "_".
+ * Trailing dots and spaces are removed, so "." and ".." become empty.
+ */
+export const sanitizePathSegment = (value: string): string =>
+    value
+        .replace(/[<>:"/\\|?*\x00-\x1f]/g, "_")
+        .trim()
+        .replace(/[. ]+$/, "")
+
+const PATH_PLACEHOLDER = /\{([^{}|]+)(?:\|([^{}]*))?\}/g
+
+/**
+ * Renders placeholders like `{genres[0].name}` or `{originalLanguage|en}` in a path.
+ * Values are resolved with the given function and sanitized; the first value is used when a field resolves to a list.
+ * Missing or empty values use the inline default after "|", or the fallback.
+ */
+export const renderPathTemplate = (template: string, resolve: (path: string) => unknown, fallback: string): string =>
+    template.replace(PATH_PLACEHOLDER, (_, path: string, inlineDefault?: string) => {
+        const resolved = resolve(path.trim())
+        const value = Array.isArray(resolved) ? resolved[0] : resolved
+        const segment = value === undefined || value === null || isObject(value) ? "" : sanitizePathSegment(String(value))
+        return segment || sanitizePathSegment(inlineDefault ?? fallback)
+    })
+
+/**
+ * Returns the part of a path template before its first placeholder, or undefined if it has no placeholders
+ */
+export const getStaticPathPrefix = (template: string): string | undefined => {
+    const index = template.search(PATH_PLACEHOLDER)
+    return index === -1 ? undefined : template.slice(0, index)
+}
+
+const regexCache = new Map<string, RegExp>()
+
+/**
+ * Compiles a case-insensitive regular expression, reusing previously compiled patterns.
+ * Throws a SyntaxError for invalid patterns.
+ */
+export const toRegExp = (pattern: string): RegExp => {
+    let regex = regexCache.get(pattern)
+    if (!regex) {
+        regex = new RegExp(pattern, "i")
+        regexCache.set(pattern, regex)
+    }
+    return regex
+}
+
 /**
  * Formats a debug log entry
  */
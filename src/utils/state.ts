@@ -0,0 +1,34 @@
+import fs from "fs"
+import path from "path"
+import logger from "./logger"
+import { config } from "../config"
+
+/**
+ * Load a JSON state file from the data directory, returning the fallback if it does not exist or cannot be read
+ */
+export const loadState = <T>(name: string, fallback: T): T => {
+    const filePath = path.join(config.data_dir!, `${name}.json`)
+
+    try {
+        if (!fs.existsSync(filePath)) return fallback
+        return JSON.parse(fs.readFileSync(filePath, "utf8")) as T
+    } catch (error) {
+        logger.warn(`Could not read state file ${filePath}, starting fresh: ${error}`)
+        return fallback
+    }
+}
+
+/**
+ * Save a JSON state file to the data directory. Writes to a temporary file first so a crash cannot corrupt it
+ */
+export const saveState = (name: string, state: unknown): void => {
+    const filePath = path.join(config.data_dir!, `${name}.json`)
+
+    try {
+        fs.mkdirSync(config.data_dir!, { recursive: true })
+        fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(state))
+        fs.renameSync(`${filePath}.tmp`, filePath)
+    } catch (error) {
+        logger.error(`Could not write state file ${filePath}: ${error}`)
+    }
+}